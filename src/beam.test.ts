@@ -0,0 +1,300 @@
+/**
+ * IteratoP - Beam Search Tests
+ */
+
+import { BeamSearchProcessor, createBeamSearch } from './beam';
+import { createEvaluation, createActionResult } from './utils';
+import { CircuitOpenError, PhaseError } from './errors';
+import type { IterationOptions, IterationEvent } from './types';
+
+interface PathState {
+  path: string;
+}
+
+// Greedy search follows 'a' (50 > 40), but the best path runs through 'b'
+const SCORES: Record<string, number> = {
+  a: 50,
+  b: 40,
+  aa: 45,
+  ab: 45,
+  ba: 90,
+  bb: 30,
+};
+
+// Each call on the same state appends the next letter: 'a', then 'b'
+function createPathOptions(
+  delay = 0
+): IterationOptions<string, PathState, string, string> {
+  const calls = new Map<string, number>();
+  return {
+    initialize: async (input) => ({ path: input }),
+    act: async (state) => {
+      const count = calls.get(state.path) ?? 0;
+      calls.set(state.path, count + 1);
+      if (delay) await new Promise((resolve) => setTimeout(resolve, delay));
+      return createActionResult(state.path + (count % 2 === 0 ? 'a' : 'b'), { cost: 0.01 });
+    },
+    evaluate: async (_, actionResult) => createEvaluation(SCORES[actionResult.data] ?? 0),
+    transition: async (_, actionResult) => ({ path: actionResult.data }),
+    finalize: async (state) => state.path,
+  };
+}
+
+describe('BeamSearchProcessor', () => {
+  it('should find a path that greedy search misses', async () => {
+    const search = createBeamSearch(createPathOptions(), {
+      beamWidth: 2,
+      branchingFactor: 2,
+      maxIterations: 3,
+      targetScore: 80,
+      alwaysRunTransition: true,
+    });
+
+    const result = await search.run('');
+
+    expect(result.result).toBe('ba');
+    expect(result.converged).toBe(true);
+    expect(result.terminationReason).toBe('converged');
+    expect(result.bestScore).toBe(90);
+    expect(result.iterations).toBe(2);
+  });
+
+  it('should behave greedily with a beam width of 1', async () => {
+    const search = createBeamSearch(createPathOptions(), {
+      beamWidth: 1,
+      branchingFactor: 2,
+      maxIterations: 2,
+      targetScore: 80,
+    });
+
+    const result = await search.run('');
+
+    expect(result.bestScore).toBe(50);
+    expect(result.converged).toBe(false);
+    expect(result.terminationReason).toBe('max_iterations');
+  });
+
+  it('should report the winning lineage', async () => {
+    const search = createBeamSearch(createPathOptions(), {
+      beamWidth: 2,
+      branchingFactor: 2,
+      maxIterations: 3,
+      targetScore: 80,
+    });
+
+    const result = await search.run('');
+
+    expect(result.lineage.map((node) => node.actionResult.data)).toEqual(['b', 'ba']);
+    expect(result.lineage.map((node) => node.iteration)).toEqual([0, 1]);
+    expect(result.lineage[0].parentId).toBeUndefined();
+    expect(result.lineage[1].parentId).toBe(result.lineage[0].id);
+    expect(result.lineage[1].state).toEqual({ path: 'b' });
+    expect(result.history.map((h) => h.evaluation.score)).toEqual([40, 90]);
+    // Without alwaysRunTransition, finalize receives the state the winner acted on
+    expect(result.result).toBe('b');
+  });
+
+  it('should record when each node was scored in history', async () => {
+    const search = createBeamSearch(createPathOptions(5), {
+      beamWidth: 2,
+      branchingFactor: 2,
+      maxIterations: 3,
+      targetScore: 80,
+    });
+
+    const result = await search.run('');
+
+    expect(result.history.map((h) => h.timestamp)).toEqual(result.lineage.map((node) => node.timestamp));
+    expect(result.history[1].timestamp).toBeGreaterThan(result.history[0].timestamp);
+    expect(result.history.every((h) => h.duration >= 4)).toBe(true);
+  });
+
+  it('should count every expansion in cost', async () => {
+    const search = createBeamSearch(createPathOptions(), {
+      beamWidth: 2,
+      branchingFactor: 2,
+      maxIterations: 3,
+      targetScore: 80,
+    });
+
+    const result = await search.run('');
+
+    // 2 expansions of the initial state, then 2 for each of the 2 beam states
+    expect(result.expanded).toBe(6);
+    expect(result.totalCost).toBeCloseTo(0.06);
+  });
+
+  it('should stop once the budget is spent', async () => {
+    const search = createBeamSearch(createPathOptions(), {
+      beamWidth: 2,
+      branchingFactor: 2,
+      maxIterations: 5,
+      targetScore: 100,
+      maxCost: 0.02,
+    });
+
+    const result = await search.run('');
+
+    expect(result.terminationReason).toBe('budget_exhausted');
+    expect(result.expanded).toBe(2);
+  });
+
+  it('should emit iteration events for the winner', async () => {
+    const events: IterationEvent[] = [];
+    const search = createBeamSearch(createPathOptions(), {
+      beamWidth: 2,
+      branchingFactor: 2,
+      maxIterations: 3,
+      targetScore: 80,
+    });
+    search.on((e) => events.push(e));
+
+    await search.run('');
+
+    const completed = events.filter((e) => e.type === 'iteration_complete');
+    expect(completed.map((e) => e.type === 'iteration_complete' && e.history.evaluation.score)).toEqual([
+      50, 90,
+    ]);
+    expect(events[0].type).toBe('start');
+    expect(events[events.length - 1].type).toBe('complete');
+  });
+
+  it('should cancel when the signal aborts', async () => {
+    const search = createBeamSearch(createPathOptions(20), {
+      beamWidth: 2,
+      branchingFactor: 2,
+      maxIterations: 5,
+      targetScore: 100,
+    });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 30);
+
+    const result = await search.run('', { signal: controller.signal });
+
+    expect(result.terminationReason).toBe('cancelled');
+    expect(result.iterations).toBe(1);
+  });
+
+  it('should stop at the timeout', async () => {
+    const search = createBeamSearch(createPathOptions(20), {
+      maxIterations: 5,
+      targetScore: 100,
+      timeout: 30,
+    });
+
+    const result = await search.run('');
+
+    expect(result.terminationReason).toBe('timeout');
+  });
+
+  it('should finalize with cancelled when the signal is already aborted', async () => {
+    const search = createBeamSearch(createPathOptions(), { maxIterations: 5 });
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await search.run('', { signal: controller.signal });
+
+    expect(result.terminationReason).toBe('cancelled');
+    expect(result.iterations).toBe(0);
+  });
+
+  it('should finalize with timeout when initialize overruns the deadline', async () => {
+    const options = createPathOptions();
+    let initializeSignal: AbortSignal | undefined;
+    options.initialize = async (input, signal) => {
+      initializeSignal = signal;
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      return { path: input };
+    };
+    const search = createBeamSearch(options, { timeout: 30 });
+
+    const result = await search.run('');
+
+    expect(result.terminationReason).toBe('timeout');
+    expect(result.iterations).toBe(0);
+    expect(initializeSignal?.aborted).toBe(true);
+  });
+
+  it('should use onError when a phase fails', async () => {
+    const options = createPathOptions();
+    const cause = new Error('evaluator down');
+    options.evaluate = async () => {
+      throw cause;
+    };
+    let received: Error | undefined;
+    options.onError = async (error) => {
+      received = error;
+      return 'failed';
+    };
+    const search = createBeamSearch(options);
+
+    const result = await search.run('');
+
+    expect(result.result).toBe('failed');
+    expect(result.terminationReason).toBe('manual_stop');
+    expect(received).toBeInstanceOf(PhaseError);
+    expect(received).toMatchObject({ phase: 'evaluate', iteration: 0, cause });
+  });
+
+  it('should abort sibling expansions when one fails', async () => {
+    const options = createPathOptions();
+    const signals: AbortSignal[] = [];
+    options.act = async (state, context) => {
+      signals.push(context.signal!);
+      if (signals.length === 1) throw new Error('model down');
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      return createActionResult(state.path + 'a');
+    };
+    const search = createBeamSearch(options, { branchingFactor: 3 });
+
+    await expect(search.run('')).rejects.toThrow(PhaseError);
+
+    expect(signals.map((signal) => signal.aborted)).toEqual([true, true, true]);
+  });
+
+  it('should use onError when initialize fails', async () => {
+    const options = createPathOptions();
+    options.initialize = async () => {
+      throw new Error('no seed');
+    };
+    options.onError = async (error, state) =>
+      `${state?.path ?? 'none'}: ${error instanceof PhaseError ? error.phase : error.message}`;
+    const search = createBeamSearch(options);
+
+    const result = await search.run('');
+
+    expect(result.result).toBe('none: initialize');
+    expect(result.iterations).toBe(0);
+    expect(result.lineage).toEqual([]);
+    expect(result.expanded).toBe(0);
+  });
+
+  it('should stop with circuit_open when a circuit breaker rejects a call', async () => {
+    const options = createPathOptions();
+    const { act } = options;
+    options.act = (state, context) => {
+      if (state.path.length > 0) throw new CircuitOpenError(1000);
+      return act(state, context);
+    };
+    const search = createBeamSearch(options, { beamWidth: 2, branchingFactor: 2, maxIterations: 3 });
+
+    const result = await search.run('');
+
+    expect(result.terminationReason).toBe('circuit_open');
+    expect(result.iterations).toBe(1);
+    expect(result.result).toBe('a');
+  });
+
+  it('should validate the configuration', () => {
+    expect(() => new BeamSearchProcessor(createPathOptions(), { beamWidth: 0 })).toThrow(
+      'beamWidth (0) must be a positive integer'
+    );
+    expect(() => new BeamSearchProcessor(createPathOptions(), { maxIterations: 2, minIterations: 3 })).toThrow(
+      'minIterations (3) cannot be greater than maxIterations (2)'
+    );
+    expect(createBeamSearch(createPathOptions()).getConfig()).toMatchObject({
+      beamWidth: 3,
+      branchingFactor: 1,
+    });
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * IteratoP - Beam Search
+ *
+ * Explores several refinement paths at once. Every state in the beam is
+ * expanded with `act`, the results are scored with `evaluate`, and the
+ * top K move on through `transition` to form the next beam.
+ *
+ * Flow:
+ * 1. Initialize (one state in the beam)
+ * 2. Loop:
+ *    a. Act on every beam state (`branchingFactor` times each)
+ *    b. Evaluate every expansion
+ *    c. Keep the top `beamWidth` and transition them into the next beam
+ * 3. Finalize the state of the winning lineage
+ */
+
+import type {
+  BeamSearchConfig,
+  BeamNode,
+  BeamSearchResult,
+  CompletedIteration,
+  IterationOptions,
+  RunOptions,
+} from './types.js';
+import { raceSignal, resolveAction } from './utils.js';
+import { ConfigurationError } from './errors.js';
+import { SearchProcessor, resolveSearchConfig } from './search.js';
+import type { ResolvedSearchConfig, Search, SearchRun } from './search.js';
+
+type ResolvedBeamConfig = ResolvedSearchConfig &
+  Required<Pick<BeamSearchConfig, 'alwaysRunTransition' | 'beamWidth' | 'branchingFactor'>>;
+
+type BeamExtra<State, ActionData> = Pick<BeamSearchResult<unknown, ActionData, State>, 'lineage' | 'expanded'>;
+
+/**
+ * A state in the beam and the nodes that led to it
+ */
+interface BeamEntry<State, ActionData> {
+  state: State;
+  lineage: BeamNode<State, ActionData>[];
+}
+
+/**
+ * An evaluated expansion of a beam entry
+ */
+interface BeamExpansion<State, ActionData> {
+  entry: BeamEntry<State, ActionData>;
+  node: BeamNode<State, ActionData>;
+}
+
+/**
+ * Beam search over the `initialize/act/evaluate/transition` contract
+ *
+ * @example
+ * ```typescript
+ * const search = createBeamSearch(options, { beamWidth: 3, branchingFactor: 2 });
+ * const result = await search.run(query);
+ * console.log(result.lineage.map((node) => node.evaluation.score));
+ * ```
+ */
+export class BeamSearchProcessor<Input, State, ActionData, Result> extends SearchProcessor<
+  Input,
+  State,
+  ActionData,
+  Result,
+  BeamExtra<State, ActionData>,
+  ResolvedBeamConfig
+> {
+  constructor(options: IterationOptions<Input, State, ActionData, Result>, config: BeamSearchConfig = {}) {
+    super(
+      options,
+      {
+        ...resolveSearchConfig(config, 5),
+        alwaysRunTransition: config.alwaysRunTransition ?? false,
+        beamWidth: config.beamWidth ?? 3,
+        branchingFactor: config.branchingFactor ?? 1,
+      },
+      'beam',
+      'Beam search'
+    );
+
+    for (const key of ['beamWidth', 'branchingFactor'] as const) {
+      const value = this.config[key];
+      if (!Number.isInteger(value) || value < 1) {
+        throw new ConfigurationError(`Invalid configuration: ${key} (${value}) must be a positive integer`);
+      }
+    }
+  }
+
+  /**
+   * Run the beam search
+   *
+   * @param input - Input passed to `initialize`
+   * @param options - Per-run options such as an `AbortSignal`
+   */
+  run(input: Input, options: RunOptions = {}): Promise<BeamSearchResult<Result, ActionData, State>> {
+    return this.execute(input, options);
+  }
+
+  /**
+   * Initialize the beam with a single state
+   */
+  protected async start(
+    input: Input,
+    run: SearchRun
+  ): Promise<Search<State, ActionData, BeamExtra<State, ActionData>>> {
+    this.log('Starting beam search', {
+      beamWidth: this.config.beamWidth,
+      branchingFactor: this.config.branchingFactor,
+    });
+
+    // The entry finalize receives: the winner of the last expansion
+    let current: BeamEntry<State, ActionData> = {
+      state: await this.initializeState(input, run),
+      lineage: [],
+    };
+    let beam = [current];
+    let best: BeamNode<State, ActionData> | undefined;
+    let expanded = 0;
+    let nextId = 0;
+
+    return {
+      step: async (i, remainingBudget) => {
+        this.log(`Iteration ${i + 1}/${this.config.maxIterations} started`, { beamSize: beam.length });
+
+        // 2a-2b. Expand every entry and score the expansions
+        const results = await raceSignal(
+          Promise.all(
+            beam.flatMap((entry) =>
+              Array.from({ length: this.config.branchingFactor }, () => this.expand(entry, i, run, remainingBudget))
+            )
+          ),
+          run.signal
+        );
+        const expansions: BeamExpansion<State, ActionData>[] = results.map(({ entry, ...scored }) => ({
+          entry,
+          node: {
+            id: nextId++,
+            parentId: entry.lineage[entry.lineage.length - 1]?.id,
+            iteration: i,
+            state: entry.state,
+            ...scored,
+          },
+        }));
+        expanded += expansions.length;
+        run.totalCost += expansions.reduce((sum, { node }) => sum + (node.actionResult.metadata?.cost ?? 0), 0);
+        run.iterations = i + 1;
+
+        // 2c. Keep the top K (earlier expansions win ties)
+        const top = [...expansions]
+          .sort((a, b) => b.node.evaluation.score - a.node.evaluation.score)
+          .slice(0, this.config.beamWidth);
+        const winner = top[0];
+        current = { state: winner.node.state, lineage: [...winner.entry.lineage, winner.node] };
+        if (!best || winner.node.evaluation.score > best.evaluation.score) {
+          best = winner.node;
+        }
+        this.emit({
+          type: 'iteration_complete',
+          iteration: i,
+          history: this.toHistory(winner.node),
+        });
+        this.log('Expansions scored', {
+          expanded: expansions.length,
+          scores: top.map(({ node }) => node.evaluation.score),
+        });
+
+        const context = this.createContext(
+          run,
+          i,
+          winner.entry.lineage[winner.entry.lineage.length - 1]?.evaluation,
+          this.getRemainingBudget(run.totalCost)
+        );
+        const shouldTerminate = this.checkTermination(winner.node.state, winner.node.evaluation, context, run.totalCost);
+        const isLastIteration = i === this.config.maxIterations - 1;
+
+        if ((!isLastIteration && !shouldTerminate.terminate) || this.config.alwaysRunTransition) {
+          // The final iteration only carries the winner forward
+          const survivors = isLastIteration || shouldTerminate.terminate ? [winner] : top;
+          beam = await raceSignal(
+            Promise.all(survivors.map((expansion) => this.transition(expansion, run))),
+            run.signal
+          );
+          current = beam[0];
+          this.emit({ type: 'transition_complete', iteration: i, state: current.state });
+        }
+
+        return shouldTerminate.terminate
+          ? { reason: shouldTerminate.reason, score: winner.node.evaluation.score }
+          : undefined;
+      },
+
+      // 3. Finalize the state of the winning lineage
+      summarize: () => {
+        const finalNode = current.lineage[current.lineage.length - 1];
+        return {
+          state: current.state,
+          history: current.lineage.map((node) => this.toHistory(node)),
+          finalScore: finalNode?.evaluation.score ?? 0,
+          bestScore: best?.evaluation.score ?? 0,
+          bestIteration: best && {
+            iteration: best.iteration,
+            state: best.state,
+            actionResult: best.actionResult,
+            evaluation: best.evaluation,
+          },
+          score: finalNode?.evaluation.score,
+          extra: { lineage: current.lineage, expanded },
+        };
+      },
+    };
+  }
+
+  /**
+   * Lineage and expansion count of a run that failed to initialize
+   */
+  protected emptyResult(): BeamExtra<State, ActionData> {
+    return { lineage: [], expanded: 0 };
+  }
+
+  /**
+   * Act on a beam entry and evaluate the result
+   */
+  private async expand(
+    entry: BeamEntry<State, ActionData>,
+    iteration: number,
+    run: SearchRun,
+    remainingBudget: number | undefined
+  ) {
+    const started = Date.now();
+    const context = this.createContext(
+      run,
+      iteration,
+      entry.lineage[entry.lineage.length - 1]?.evaluation,
+      remainingBudget
+    );
+    // Chunks of concurrent expansions interleave; each restarts at index 0
+    const actionResult = await this.runPhase('act', iteration, run, () =>
+      resolveAction(this.options.act(entry.state, context), (chunk, index) =>
+        this.emit({ type: 'action_chunk', iteration, index, chunk })
+      )
+    );
+    const evaluation = await this.runPhase('evaluate', iteration, run, () =>
+      this.options.evaluate(entry.state, actionResult, context)
+    );
+    return { entry, actionResult, evaluation, timestamp: Date.now(), duration: Date.now() - started };
+  }
+
+  /**
+   * Transition an expansion into an entry of the next beam
+   */
+  private async transition(
+    { entry, node }: BeamExpansion<State, ActionData>,
+    run: SearchRun
+  ): Promise<BeamEntry<State, ActionData>> {
+    const context = this.createContext(
+      run,
+      node.iteration,
+      entry.lineage[entry.lineage.length - 1]?.evaluation,
+      this.getRemainingBudget(run.totalCost)
+    );
+    const state = await this.runPhase('transition', node.iteration, run, () =>
+      this.options.transition(node.state, node.actionResult, node.evaluation, context)
+    );
+    return { state, lineage: [...entry.lineage, node] };
+  }
+
+  /**
+   * History entry for a node on the winning path
+   */
+  private toHistory(node: BeamNode<State, ActionData>): CompletedIteration<ActionData> {
+    return {
+      iteration: node.iteration,
+      actionResult: node.actionResult,
+      evaluation: node.evaluation,
+      timestamp: node.timestamp,
+      duration: node.duration,
+    };
+  }
+}
+
+/**
+ * Factory function for creating a BeamSearchProcessor
+ */
+export function createBeamSearch<Input, State, ActionData, Result>(
+  options: IterationOptions<Input, State, ActionData, Result>,
+  config?: BeamSearchConfig
+): BeamSearchProcessor<Input, State, ActionData, Result> {
+  return new BeamSearchProcessor(options, config);
+}
@@ -3,7 +3,7 @@
  */
 
 import { iterationBuilder } from './builder';
-import { createActionResult, createEvaluation } from './utils';
+import { createActionResult, createEvaluation, RateLimiter } from './utils';
 
 describe('IterationBuilder', () => {
   describe('fluent API', () => {
@@ -128,6 +128,23 @@ describe('IterationBuilder', () => {
       expect(result.result).toBe(-1);
     });
 
+    it('should set iteration error recovery', async () => {
+      const result = await iterationBuilder<number, { value: number }, number, number>()
+        .initialize(async (input) => ({ value: input }))
+        .act(async (state) => {
+          if (state.value === 1) throw new Error('Test error');
+          return createActionResult(state.value + 1);
+        })
+        .evaluate(async (_, result) => createEvaluation(result.data * 10))
+        .transition(async (_, result) => ({ value: result.data }))
+        .finalize(async (state) => state.value)
+        .onIterationError(async () => createActionResult(5))
+        .run(1);
+
+      expect(result.history.map((h) => h.actionResult.data)).toEqual([5, 6, 7]);
+      expect(result.result).toBe(6);
+    });
+
     it('should set custom termination', async () => {
       const result = await iterationBuilder<number, { value: number }, number, number>()
         .initialize(async (input) => ({ value: input }))
@@ -150,6 +167,7 @@ describe('IterationBuilder', () => {
         error: vi.fn(),
         log: vi.fn(),
       };
+      const limiter = new RateLimiter({ requestsPerMinute: 60 });
 
       const processor = iterationBuilder()
         .initialize(async () => ({}))
@@ -165,6 +183,16 @@ describe('IterationBuilder', () => {
         .verbose(true)
         .alwaysRunTransition(true)
         .skipMinIterations(false)
+        .rollbackOnRegression()
+        .maxRollbacks(5)
+        .candidates(3)
+        .finalizeFrom('best')
+        .maxCost(1.5)
+        .maxCostPerIteration(0.5)
+        .plateau(3, 2)
+        .phase('act', { timeout: 1000, retry: { maxRetries: 2 } })
+        .phase('evaluate', { timeout: 500 })
+        .rateLimiter(limiter)
         .logger(mockLogger)
         .build();
 
@@ -177,6 +205,18 @@ describe('IterationBuilder', () => {
       expect(config.verbose).toBe(true);
       expect(config.alwaysRunTransition).toBe(true);
       expect(config.skipMinIterations).toBe(false);
+      expect(config.rollbackOnRegression).toBe(true);
+      expect(config.maxRollbacks).toBe(5);
+      expect(config.candidates).toBe(3);
+      expect(config.finalizeFrom).toBe('best');
+      expect(config.maxCost).toBe(1.5);
+      expect(config.maxCostPerIteration).toBe(0.5);
+      expect(config.plateau).toEqual({ window: 3, minDelta: 2 });
+      expect(config.phases).toEqual({
+        act: { timeout: 1000, retry: { maxRetries: 2 } },
+        evaluate: { timeout: 500 },
+      });
+      expect(config.rateLimiter).toBe(limiter);
       expect(config.logger).toBe(mockLogger);
     });
   });
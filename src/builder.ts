@@ -7,11 +7,20 @@ import type {
   IterationOptions,
   IterationConfig,
   ActionResult,
+  ActionStream,
   Evaluation,
   IterationContext,
   IterationHistory,
   IterationEventListener,
+  RunOptions,
+  RunManyOptions,
+  IterationPhase,
+  PhasePolicy,
+  StateSerializer,
+  IterationErrorDecision,
 } from './types.js';
+import type { RateLimiter } from './utils.js';
+import { ConfigurationError, type PhaseError } from './errors.js';
 
 /**
  * Default preset configurations for common use cases
@@ -69,15 +78,22 @@ export class IterationBuilder<Input, State, ActionData, Result> {
   /**
    * Set initialization function
    */
-  initialize(fn: (input: Input) => Promise<State>): this {
+  initialize(fn: (input: Input, signal: AbortSignal) => Promise<State>): this {
     this.options.initialize = fn;
     return this;
   }
 
   /**
    * Set action function
+   *
+   * The function may return an `ActionStream` to emit partial output.
    */
-  act(fn: (state: State, context: IterationContext) => Promise<ActionResult<ActionData>>): this {
+  act(
+    fn: (
+      state: State,
+      context: IterationContext
+    ) => Promise<ActionResult<ActionData>> | ActionStream<ActionData>
+  ): this {
     this.options.act = fn;
     return this;
   }
@@ -131,6 +147,20 @@ export class IterationBuilder<Input, State, ActionData, Result> {
     return this;
   }
 
+  /**
+   * Set per-iteration error recovery ('skip', 'retry', a replacement or 'abort')
+   */
+  onIterationError(
+    fn: (
+      error: PhaseError,
+      state: State,
+      context: IterationContext
+    ) => IterationErrorDecision<ActionData> | Promise<IterationErrorDecision<ActionData>>
+  ): this {
+    this.options.onIterationError = fn;
+    return this;
+  }
+
   /**
    * Set error handler
    */
@@ -145,6 +175,14 @@ export class IterationBuilder<Input, State, ActionData, Result> {
     return this;
   }
 
+  /**
+   * Set state serializer for checkpoints
+   */
+  serializer(serializer: StateSerializer<State>): this {
+    this.options.serializer = serializer;
+    return this;
+  }
+
   /**
    * Set maximum iterations
    */
@@ -209,6 +247,78 @@ export class IterationBuilder<Input, State, ActionData, Result> {
     return this;
   }
 
+  /**
+   * Enable rolling back transitions that lower the score
+   */
+  rollbackOnRegression(enabled = true): this {
+    this.config.rollbackOnRegression = enabled;
+    return this;
+  }
+
+  /**
+   * Set maximum number of rollbacks per run
+   */
+  maxRollbacks(value: number): this {
+    this.config.maxRollbacks = value;
+    return this;
+  }
+
+  /**
+   * Set number of candidates generated per iteration (best-of-N)
+   */
+  candidates(count: number): this {
+    this.config.candidates = count;
+    return this;
+  }
+
+  /**
+   * Choose whether finalize receives the last or the best-scoring state
+   */
+  finalizeFrom(source: 'last' | 'best'): this {
+    this.config.finalizeFrom = source;
+    return this;
+  }
+
+  /**
+   * Set cost budget for the whole run
+   */
+  maxCost(value: number): this {
+    this.config.maxCost = value;
+    return this;
+  }
+
+  /**
+   * Set cost cap for a single iteration
+   */
+  maxCostPerIteration(value: number): this {
+    this.config.maxCostPerIteration = value;
+    return this;
+  }
+
+  /**
+   * Stop when the score has not improved by `minDelta` over `window` iterations
+   */
+  plateau(window: number, minDelta?: number): this {
+    this.config.plateau = { window, minDelta };
+    return this;
+  }
+
+  /**
+   * Set timeout and retry policy for a phase
+   */
+  phase(name: IterationPhase, policy: PhasePolicy): this {
+    this.config.phases = { ...this.config.phases, [name]: policy };
+    return this;
+  }
+
+  /**
+   * Gate act and evaluate calls with a (possibly shared) rate limiter
+   */
+  rateLimiter(limiter: RateLimiter): this {
+    this.config.rateLimiter = limiter;
+    return this;
+  }
+
   /**
    * Set custom logger
    */
@@ -275,19 +385,19 @@ export class IterationBuilder<Input, State, ActionData, Result> {
   build(): IterationProcessor<Input, State, ActionData, Result> {
     // Validate all required options are set
     if (!this.options.initialize) {
-      throw new Error('initialize function is required');
+      throw new ConfigurationError('initialize function is required');
     }
     if (!this.options.act) {
-      throw new Error('act function is required');
+      throw new ConfigurationError('act function is required');
     }
     if (!this.options.evaluate) {
-      throw new Error('evaluate function is required');
+      throw new ConfigurationError('evaluate function is required');
     }
     if (!this.options.transition) {
-      throw new Error('transition function is required');
+      throw new ConfigurationError('transition function is required');
     }
     if (!this.options.finalize) {
-      throw new Error('finalize function is required');
+      throw new ConfigurationError('finalize function is required');
     }
 
     const processor = createIterator(
@@ -306,8 +416,15 @@ export class IterationBuilder<Input, State, ActionData, Result> {
   /**
    * Build and run immediately
    */
-  async run(input: Input) {
-    return this.build().run(input);
+  async run(input: Input, options?: RunOptions) {
+    return this.build().run(input, options);
+  }
+
+  /**
+   * Build and run over many inputs immediately
+   */
+  async runMany(inputs: Input[], options?: RunManyOptions) {
+    return this.build().runMany(inputs, options);
   }
 }
 
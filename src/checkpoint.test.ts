@@ -0,0 +1,136 @@
+/**
+ * IteratoP - Checkpoint Store Tests
+ */
+
+import { mkdtemp, rm, readdir } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { MemoryCheckpointStore, FileCheckpointStore } from './checkpoint';
+import { createEvaluation } from './utils';
+import type { IterationCheckpoint } from './types';
+
+function createCheckpoint(iteration: number): IterationCheckpoint {
+  return {
+    version: 1,
+    config: {
+      maxIterations: 5,
+      targetScore: 70,
+      earlyStopScore: 95,
+      minIterations: 1,
+      verbose: false,
+      alwaysRunTransition: false,
+      skipMinIterations: false,
+      rollbackOnRegression: false,
+      maxRollbacks: 3,
+      candidates: 1,
+      finalizeFrom: 'last',
+    },
+    state: { value: iteration },
+    history: [],
+    iteration,
+    lastEvaluation: createEvaluation(50),
+    totalCost: 0.1,
+    elapsedTime: 1000,
+    rollbacks: 0,
+    timestamp: Date.now(),
+  };
+}
+
+describe('MemoryCheckpointStore', () => {
+  it('should save and load checkpoints', async () => {
+    const store = new MemoryCheckpointStore();
+    const checkpoint = createCheckpoint(2);
+
+    await store.save('a', checkpoint);
+    const loaded = await store.load('a');
+
+    expect(loaded).toEqual(checkpoint);
+    expect(loaded).not.toBe(checkpoint);
+    expect(store.list()).toEqual(['a']);
+  });
+
+  it('should return undefined for unknown IDs', async () => {
+    const store = new MemoryCheckpointStore();
+
+    expect(await store.load('missing')).toBeUndefined();
+  });
+
+  it('should delete checkpoints', async () => {
+    const store = new MemoryCheckpointStore();
+    await store.save('a', createCheckpoint(1));
+
+    await store.delete('a');
+
+    expect(await store.load('a')).toBeUndefined();
+  });
+});
+
+describe('FileCheckpointStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'iteratop-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should write checkpoints as JSON files', async () => {
+    const store = new FileCheckpointStore(join(directory, 'nested'));
+    const checkpoint = createCheckpoint(3);
+
+    await store.save('run/1', checkpoint);
+
+    expect(await store.load('run/1')).toEqual(checkpoint);
+    expect(await readdir(join(directory, 'nested'))).toEqual(['run%2F1.json']);
+  });
+
+  it('should overwrite an existing checkpoint', async () => {
+    const store = new FileCheckpointStore(directory);
+
+    await store.save('a', createCheckpoint(1));
+    await store.save('a', createCheckpoint(2));
+
+    expect((await store.load('a'))?.iteration).toBe(2);
+  });
+
+  it('should return undefined for missing files and delete files', async () => {
+    const store = new FileCheckpointStore(directory);
+
+    expect(await store.load('missing')).toBeUndefined();
+
+    await store.save('a', createCheckpoint(1));
+    await store.delete('a');
+    await store.delete('a');
+
+    expect(await store.load('a')).toBeUndefined();
+  });
+
+  it('should use an injected file system', async () => {
+    const files = new Map<string, string>();
+    const store = new FileCheckpointStore('/checkpoints/', {
+      readFile: async (path) => {
+        const data = files.get(path);
+        if (data === undefined) throw Object.assign(new Error('missing'), { code: 'ENOENT' });
+        return data;
+      },
+      writeFile: async (path, data) => {
+        files.set(path, data);
+      },
+      rename: async (from, to) => {
+        files.set(to, files.get(from)!);
+        files.delete(from);
+      },
+      mkdir: async () => undefined,
+      rm: async (path) => {
+        files.delete(path);
+      },
+    });
+
+    await store.save('a', createCheckpoint(4));
+
+    expect(Array.from(files.keys())).toEqual(['/checkpoints/a.json']);
+    expect((await store.load('a'))?.iteration).toBe(4);
+  });
+});
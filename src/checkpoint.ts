@@ -0,0 +1,122 @@
+/**
+ * IteratoP - Checkpoint Stores
+ *
+ * Storage backends for `IterationCheckpoint`, used with
+ * `run(input, { checkpoint: { store, id } })` and `processor.resume()`.
+ */
+
+import type { CheckpointStore, IterationCheckpoint } from './types.js';
+
+/**
+ * Checkpoint store that keeps checkpoints in memory
+ *
+ * Checkpoints are stored as JSON strings, so a loaded checkpoint never
+ * shares references with the running loop.
+ */
+export class MemoryCheckpointStore implements CheckpointStore {
+  private checkpoints = new Map<string, string>();
+
+  async save(id: string, checkpoint: IterationCheckpoint): Promise<void> {
+    this.checkpoints.set(id, JSON.stringify(checkpoint));
+  }
+
+  async load(id: string): Promise<IterationCheckpoint | undefined> {
+    const data = this.checkpoints.get(id);
+    return data === undefined ? undefined : (JSON.parse(data) as IterationCheckpoint);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.checkpoints.delete(id);
+  }
+
+  /**
+   * IDs of all stored checkpoints
+   */
+  list(): string[] {
+    return Array.from(this.checkpoints.keys());
+  }
+}
+
+/**
+ * Subset of `node:fs/promises` used by FileCheckpointStore
+ */
+export interface CheckpointFileSystem {
+  readFile(path: string, encoding: 'utf8'): Promise<string>;
+  writeFile(path: string, data: string, encoding: 'utf8'): Promise<void>;
+  rename(from: string, to: string): Promise<void>;
+  mkdir(path: string, options: { recursive: true }): Promise<unknown>;
+  rm(path: string, options: { force: true }): Promise<void>;
+}
+
+/**
+ * Checkpoint store that writes one JSON file per checkpoint
+ *
+ * Files are written to a temporary path and renamed, so a crash while
+ * saving never leaves a truncated checkpoint behind. `node:fs/promises`
+ * is loaded lazily, keeping the package usable in browsers.
+ *
+ * @example
+ * ```typescript
+ * const store = new FileCheckpointStore('./.checkpoints');
+ * await processor.run(input, { checkpoint: { store, id: 'research-42' } });
+ *
+ * // After a restart
+ * const checkpoint = await store.load('research-42');
+ * if (checkpoint) await processor.resume(checkpoint);
+ * ```
+ */
+export class FileCheckpointStore implements CheckpointStore {
+  private fs?: CheckpointFileSystem;
+
+  /**
+   * @param directory - Directory that holds the checkpoint files
+   * @param fs - File system implementation (default: `node:fs/promises`)
+   */
+  constructor(
+    private directory: string,
+    fs?: CheckpointFileSystem
+  ) {
+    this.fs = fs;
+  }
+
+  async save(id: string, checkpoint: IterationCheckpoint): Promise<void> {
+    const fs = await this.getFileSystem();
+    const path = this.pathFor(id);
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(`${path}.tmp`, JSON.stringify(checkpoint), 'utf8');
+    await fs.rename(`${path}.tmp`, path);
+  }
+
+  async load(id: string): Promise<IterationCheckpoint | undefined> {
+    const fs = await this.getFileSystem();
+    try {
+      return JSON.parse(await fs.readFile(this.pathFor(id), 'utf8')) as IterationCheckpoint;
+    } catch (error) {
+      if ((error as { code?: string })?.code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    const fs = await this.getFileSystem();
+    await fs.rm(this.pathFor(id), { force: true });
+  }
+
+  /**
+   * File path for a checkpoint ID
+   */
+  private pathFor(id: string): string {
+    return `${this.directory.replace(/\/+$/, '')}/${encodeURIComponent(id)}.json`;
+  }
+
+  /**
+   * Load `node:fs/promises` on first use
+   */
+  private async getFileSystem(): Promise<CheckpointFileSystem> {
+    if (!this.fs) {
+      const specifier = 'node:fs/promises';
+      this.fs = (await import(specifier)) as CheckpointFileSystem;
+    }
+    return this.fs;
+  }
+}
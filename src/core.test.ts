@@ -9,9 +9,13 @@ import {
   calculateTotalCost,
   calculateAverageScore,
   getScoreProgression,
-  isImproving
+  isImproving,
+  RateLimiter,
+  createCircuitBreaker
 } from './utils';
-import { IterationOptions, IterationEvent } from './types';
+import { CircuitOpenError, PhaseError, ConfigurationError, TimeoutError, CancelledError } from './errors';
+import { MemoryCheckpointStore } from './checkpoint';
+import { IterationOptions, IterationEvent, IterationCheckpoint, IterationUpdate, IterationStep } from './types';
 
 // Test state type
 interface TestState {
@@ -115,6 +119,1010 @@ describe('IterationProcessor', () => {
     });
   });
 
+  describe('cost budget', () => {
+    it('should stop with budget_exhausted once maxCost is reached', async () => {
+      const processor = createIterator(createMockOptions((v) => v), {
+        maxIterations: 10,
+        targetScore: 200,
+        maxCost: 0.03,
+      });
+
+      const result = await processor.run(1);
+
+      expect(result.terminationReason).toBe('budget_exhausted');
+      expect(result.iterations).toBe(3);
+      expect(result.totalCost).toBeCloseTo(0.03);
+    });
+
+    it('should expose remainingBudget in the context', async () => {
+      const budgets: (number | undefined)[] = [];
+      const options = createMockOptions((v) => v);
+      const originalAct = options.act;
+      options.act = async (state, context) => {
+        budgets.push(context.remainingBudget);
+        return originalAct(state, context);
+      };
+
+      const processor = createIterator(options, {
+        maxIterations: 2,
+        targetScore: 200,
+        maxCost: 1,
+      });
+      await processor.run(1);
+
+      expect(budgets[0]).toBe(1);
+      expect(budgets[1]).toBeCloseTo(0.99);
+    });
+
+    it('should stop when an iteration exceeds maxCostPerIteration', async () => {
+      const options = createMockOptions((v) => v);
+      options.act = async (state) =>
+        createActionResult(state.value + 1, { cost: state.value >= 2 ? 0.5 : 0.01 });
+
+      const processor = createIterator(options, {
+        maxIterations: 10,
+        targetScore: 200,
+        maxCostPerIteration: 0.1,
+      });
+
+      const result = await processor.run(1);
+
+      expect(result.terminationReason).toBe('budget_exhausted');
+      expect(result.iterations).toBe(2);
+    });
+
+    it('should not start an iteration the remaining budget cannot cover', async () => {
+      const processor = createIterator(createMockOptions((v) => v), {
+        maxIterations: 10,
+        targetScore: 200,
+        maxCost: 0.025,
+        maxCostPerIteration: 0.01,
+      });
+
+      const result = await processor.run(1);
+
+      expect(result.terminationReason).toBe('budget_exhausted');
+      expect(result.iterations).toBe(2);
+    });
+  });
+
+  describe('plateau detection', () => {
+    it('should stop with plateau reason when the score stalls', async () => {
+      const scores = [40, 55, 62, 62, 63, 62, 90];
+      const options = createMockOptions();
+      let call = 0;
+      options.evaluate = async () => createEvaluation(scores[call++]);
+
+      const processor = createIterator(options, {
+        maxIterations: 10,
+        targetScore: 80,
+        plateau: { window: 2, minDelta: 2 },
+      });
+
+      const result = await processor.run(1);
+
+      expect(result.terminationReason).toBe('plateau');
+      expect(result.iterations).toBe(5); // 62 -> 62 -> 63 gains only 1 over 2 iterations
+    });
+
+    it('should keep iterating while the score improves', async () => {
+      const processor = createIterator(createMockOptions((v) => v * 10), {
+        maxIterations: 10,
+        targetScore: 70,
+        plateau: { window: 2 },
+      });
+
+      const result = await processor.run(1);
+
+      expect(result.terminationReason).toBe('converged');
+    });
+  });
+
+  describe('best-of-N candidates', () => {
+    // Candidate i adds i + 1 to the value, so later candidates score higher
+    function createCandidateOptions(concurrency: { active: number; max: number }) {
+      const options = createMockOptions();
+      let calls = 0;
+      options.act = async (state) => {
+        const offset = calls++ % 3;
+        concurrency.active++;
+        concurrency.max = Math.max(concurrency.max, concurrency.active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        concurrency.active--;
+        return createActionResult(state.value + offset + 1, { cost: 0.01 });
+      };
+      return options;
+    }
+
+    it('should carry the highest-scoring candidate into transition', async () => {
+      const concurrency = { active: 0, max: 0 };
+      const processor = createIterator(createCandidateOptions(concurrency), {
+        maxIterations: 2,
+        targetScore: 200,
+        candidates: 3,
+      });
+
+      const result = await processor.run(0);
+
+      expect(concurrency.max).toBe(3);
+      expect(result.history[0].actionResult.data).toBe(3);
+      expect(result.history[1].actionResult.data).toBe(6);
+      expect(result.result.finalValue).toBe(3);
+    });
+
+    it('should keep losing candidates in history and sum their cost', async () => {
+      const processor = createIterator(createCandidateOptions({ active: 0, max: 0 }), {
+        maxIterations: 2,
+        targetScore: 200,
+        candidates: 3,
+      });
+
+      const result = await processor.run(0);
+
+      expect(result.history[0].candidates).toEqual([
+        expect.objectContaining({ candidate: 0, evaluation: expect.objectContaining({ score: 10 }) }),
+        expect.objectContaining({ candidate: 1, evaluation: expect.objectContaining({ score: 20 }) }),
+      ]);
+      expect(result.totalCost).toBeCloseTo(0.06);
+      expect(calculateTotalCost(result.history)).toBeCloseTo(0.06);
+    });
+
+    it('should tag events with the candidate number', async () => {
+      const events: IterationEvent[] = [];
+      const processor = createIterator(createCandidateOptions({ active: 0, max: 0 }), {
+        maxIterations: 1,
+        candidates: 3,
+      });
+      processor.on((e) => events.push(e));
+
+      await processor.run(0);
+
+      const evaluations = events.filter((e) => e.type === 'evaluation_complete');
+      expect(evaluations.map((e) => e.type === 'evaluation_complete' && e.candidate).sort()).toEqual([0, 1, 2]);
+    });
+
+    it('should abort the other candidates when one fails', async () => {
+      const signals: AbortSignal[] = [];
+      const options = createMockOptions();
+      let calls = 0;
+      options.act = async (state, context) => {
+        if (calls++ === 0) throw new Error('search API down');
+        signals.push(context.signal!);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+        return createActionResult(state.value + 1);
+      };
+
+      const processor = createIterator(options, { maxIterations: 1, candidates: 3 });
+
+      const start = Date.now();
+      await expect(processor.run(0)).rejects.toThrow('search API down');
+      expect(Date.now() - start).toBeLessThan(500);
+      expect(signals).toHaveLength(2);
+      expect(signals.every((signal) => signal.aborted)).toBe(true);
+    });
+
+    it('should not tag events or record candidates for a single candidate', async () => {
+      const events: IterationEvent[] = [];
+      const processor = createIterator(createMockOptions(), { maxIterations: 1 });
+      processor.on((e) => events.push(e));
+
+      const result = await processor.run(0);
+
+      const actionEvent = events.find((e) => e.type === 'action_complete');
+      expect(actionEvent).not.toHaveProperty('candidate');
+      expect(result.history[0].candidates).toBeUndefined();
+    });
+  });
+
+  describe('best iteration tracking', () => {
+    it('should report the highest-scoring iteration', async () => {
+      const scores = [40, 65, 50];
+      const options = createMockOptions();
+      let call = 0;
+      options.evaluate = async () => createEvaluation(scores[call++]);
+
+      const processor = createIterator(options, { maxIterations: 3, targetScore: 90 });
+      const result = await processor.run(1);
+
+      expect(result.finalScore).toBe(50);
+      expect(result.bestScore).toBe(65);
+      expect(result.bestIteration?.iteration).toBe(1);
+      expect(result.bestIteration?.state.value).toBe(2);
+      expect(result.bestIteration?.actionResult.data).toBe(3);
+      expect(result.result.finalValue).toBe(3); // finalizeFrom defaults to 'last'
+    });
+
+    it('should finalize from the best state when finalizeFrom is best', async () => {
+      const scores = [40, 65, 50];
+      const options = createMockOptions();
+      let call = 0;
+      options.evaluate = async () => createEvaluation(scores[call++]);
+
+      const processor = createIterator(options, {
+        maxIterations: 3,
+        targetScore: 90,
+        finalizeFrom: 'best',
+      });
+      const result = await processor.run(1);
+
+      expect(result.result.finalValue).toBe(2);
+    });
+
+    it('should report no best iteration when nothing ran', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const processor = createIterator(createMockOptions(), { finalizeFrom: 'best' });
+
+      const result = await processor.run(1, { signal: controller.signal });
+
+      expect(result.bestIteration).toBeUndefined();
+      expect(result.bestScore).toBe(0);
+      expect(result.result.finalValue).toBe(1);
+    });
+  });
+
+  describe('regression rollback', () => {
+    function createScriptedOptions(scores: number[], actedOn: number[]) {
+      const options = createMockOptions();
+      let call = 0;
+      options.act = async (state) => {
+        actedOn.push(state.value);
+        return createActionResult(state.value + 1, { cost: 0.01 });
+      };
+      options.evaluate = async () => createEvaluation(scores[call++], { feedback: `call ${call}` });
+      return options;
+    }
+
+    it('should roll back the state when the score regresses', async () => {
+      const events: IterationEvent[] = [];
+      const actedOn: number[] = [];
+      const processor = createIterator(createScriptedOptions([50, 40, 60, 70], actedOn), {
+        maxIterations: 4,
+        targetScore: 70,
+        rollbackOnRegression: true,
+      });
+      processor.on((e) => events.push(e));
+
+      const result = await processor.run(1);
+
+      expect(actedOn).toEqual([1, 2, 1, 2]);
+      expect(result.history.map((h) => h.rolledBack ?? false)).toEqual([false, true, false, false]);
+      expect(events.filter((e) => e.type === 'rollback')).toHaveLength(1);
+      expect(result.terminationReason).toBe('converged');
+    });
+
+    it('should copy the state through the serializer when transition mutates it', async () => {
+      const actedOn: number[] = [];
+      const options = createScriptedOptions([50, 40, 60, 45], actedOn);
+      options.transition = async (state, actionResult) => {
+        state.value = actionResult.data;
+        state.history.push(actionResult.data);
+        return state;
+      };
+      options.serializer = {
+        serialize: (state) => JSON.stringify(state),
+        deserialize: (data) => JSON.parse(data as string),
+      };
+      const processor = createIterator(options, {
+        maxIterations: 4,
+        targetScore: 90,
+        rollbackOnRegression: true,
+        finalizeFrom: 'best',
+      });
+
+      const result = await processor.run(1);
+
+      expect(actedOn).toEqual([1, 2, 1, 2]);
+      expect(result.bestIteration?.iteration).toBe(2);
+      expect(result.bestIteration?.state).toEqual({ value: 1, history: [1] });
+      expect(result.result.finalValue).toBe(1);
+    });
+
+    it('should pass the regressed evaluation to the retried iteration', async () => {
+      const previousFeedback: (string | undefined)[] = [];
+      const options = createScriptedOptions([50, 40, 60], []);
+      const originalAct = options.act;
+      options.act = async (state, context) => {
+        previousFeedback.push(context.previousEvaluation?.feedback);
+        return originalAct(state, context);
+      };
+
+      const processor = createIterator(options, {
+        maxIterations: 3,
+        targetScore: 90,
+        rollbackOnRegression: true,
+      });
+      await processor.run(1);
+
+      expect(previousFeedback).toEqual([undefined, 'call 1', 'call 2']);
+    });
+
+    it('should stop rolling back after maxRollbacks', async () => {
+      const actedOn: number[] = [];
+      const processor = createIterator(createScriptedOptions([50, 40, 30, 20], actedOn), {
+        maxIterations: 4,
+        targetScore: 90,
+        rollbackOnRegression: true,
+        maxRollbacks: 1,
+      });
+
+      const result = await processor.run(1);
+
+      expect(actedOn).toEqual([1, 2, 1, 2]);
+      expect(result.history.filter((h) => h.rolledBack)).toHaveLength(1);
+    });
+
+    it('should transition again after a noisy re-evaluation of the restored state', async () => {
+      const events: IterationEvent[] = [];
+      const actedOn: number[] = [];
+      const processor = createIterator(createScriptedOptions([60, 50, 55, 58, 59], actedOn), {
+        maxIterations: 5,
+        targetScore: 90,
+        rollbackOnRegression: true,
+      });
+      processor.on((e) => events.push(e));
+
+      const result = await processor.run(1);
+
+      expect(actedOn).toEqual([1, 2, 1, 2, 3]);
+      expect(result.history.map((h) => h.rolledBack ?? false)).toEqual([false, true, false, false, false]);
+      expect(events.filter((e) => e.type === 'rollback')).toHaveLength(1);
+    });
+
+    it('should not roll back by default', async () => {
+      const actedOn: number[] = [];
+      const processor = createIterator(createScriptedOptions([50, 40, 30], actedOn), {
+        maxIterations: 3,
+        targetScore: 90,
+      });
+
+      await processor.run(1);
+
+      expect(actedOn).toEqual([1, 2, 3]);
+    });
+  });
+
+  describe('checkpoint and resume', () => {
+    it('should save a checkpoint after each iteration', async () => {
+      const store = new MemoryCheckpointStore();
+      const checkpoints: IterationCheckpoint[] = [];
+      const processor = createIterator(createMockOptions((v) => v), {
+        maxIterations: 3,
+        targetScore: 200,
+      });
+      processor.on((e) => {
+        if (e.type === 'checkpoint') checkpoints.push(e.checkpoint);
+      });
+
+      await processor.run(1, { checkpoint: { store, id: 'loop' } });
+
+      expect(checkpoints.map((c) => c.iteration)).toEqual([1, 2, 3]);
+      const saved = await store.load('loop');
+      expect(saved?.iteration).toBe(3);
+      expect(saved?.history).toHaveLength(3);
+      expect(saved?.totalCost).toBeCloseTo(0.03);
+    });
+
+    it('should resume from a checkpoint after a failure', async () => {
+      const store = new MemoryCheckpointStore();
+      const actedOn: number[] = [];
+      let failOn: number | undefined = 3;
+      const options = createMockOptions((v) => v * 10);
+      options.act = async (state) => {
+        if (state.value === failOn) throw new Error('process restarted');
+        actedOn.push(state.value);
+        return createActionResult(state.value + 1, { cost: 0.01 });
+      };
+
+      const processor = createIterator(options, { maxIterations: 10, targetScore: 70 });
+      await expect(processor.run(1, { checkpoint: { store, id: 'loop' } })).rejects.toThrow(
+        'process restarted'
+      );
+
+      failOn = undefined;
+      const checkpoint = await store.load('loop');
+      const result = await processor.resume(checkpoint!);
+
+      expect(actedOn).toEqual([1, 2, 3, 4, 5, 6]);
+      expect(result.iterations).toBe(6);
+      expect(result.history.map((h) => h.iteration)).toEqual([0, 1, 2, 3, 4, 5]);
+      expect(result.totalCost).toBeCloseTo(0.06);
+      expect(result.terminationReason).toBe('converged');
+      expect(result.result.finalValue).toBe(6);
+    });
+
+    it('should restore the configuration stored in the checkpoint', async () => {
+      const store = new MemoryCheckpointStore();
+      const processor = createIterator(createMockOptions((v) => v), {
+        maxIterations: 2,
+        targetScore: 200,
+      });
+      await processor.run(1, { checkpoint: { store, id: 'loop' } });
+
+      const checkpoint = await store.load('loop');
+      const result = await createIterator(createMockOptions((v) => v), {
+        maxIterations: 10,
+      }).resume(checkpoint!);
+
+      expect(result.iterations).toBe(2);
+      expect(result.terminationReason).toBe('max_iterations');
+    });
+
+    it('should reject checkpoints of an unsupported version', async () => {
+      const store = new MemoryCheckpointStore();
+      const processor = createIterator(createMockOptions(), { maxIterations: 1 });
+      await processor.run(1, { checkpoint: { store, id: 'loop' } });
+
+      const checkpoint = await store.load('loop');
+      const resumed = processor.resume({ ...checkpoint!, version: 2 as 1 });
+
+      await expect(resumed).rejects.toThrow(ConfigurationError);
+      await expect(resumed).rejects.toThrow('Unsupported checkpoint version: 2');
+    });
+
+    it('should reject checkpoints of an unsupported version without calling onError', async () => {
+      const store = new MemoryCheckpointStore();
+      const options = createMockOptions();
+      options.onError = vi.fn(async () => ({ finalValue: -1 }));
+      const processor = createIterator(options, { maxIterations: 1 });
+      await processor.run(1, { checkpoint: { store, id: 'loop' } });
+
+      const checkpoint = await store.load('loop');
+
+      await expect(processor.resume({ ...checkpoint!, version: 2 as 1 })).rejects.toThrow(ConfigurationError);
+      expect(options.onError).not.toHaveBeenCalled();
+    });
+
+    it('should use the serializer for state that is not JSON-safe', async () => {
+      interface MapState {
+        seen: Map<string, number>;
+      }
+      const store = new MemoryCheckpointStore();
+      let fail = true;
+      const options: IterationOptions<number, MapState, number, number> = {
+        initialize: async () => ({ seen: new Map() }),
+        act: async (state, context) => {
+          if (context.iteration === 2 && fail) throw new Error('crash');
+          return createActionResult(state.seen.size + 1);
+        },
+        evaluate: async (_, actionResult) => createEvaluation(actionResult.data * 20),
+        transition: async (state, actionResult) => ({
+          seen: new Map(state.seen).set(`k${actionResult.data}`, actionResult.data),
+        }),
+        finalize: async (state) => state.seen.size,
+        serializer: {
+          serialize: (state) => Array.from(state.seen.entries()),
+          deserialize: (data) => ({ seen: new Map(data as [string, number][]) }),
+        },
+      };
+
+      const processor = createIterator(options, { maxIterations: 5, targetScore: 80 });
+      await expect(processor.run(0, { checkpoint: { store, id: 'map' } })).rejects.toThrow('crash');
+
+      const checkpoint = await store.load('map');
+      expect(checkpoint?.state).toEqual([['k1', 1], ['k2', 2]]);
+
+      fail = false;
+      const result = await processor.resume(checkpoint!);
+
+      expect(result.result).toBe(3);
+      expect(result.finalScore).toBe(80);
+    });
+
+    it('should emit a resume event', async () => {
+      const store = new MemoryCheckpointStore();
+      const processor = createIterator(createMockOptions((v) => v), {
+        maxIterations: 1,
+        targetScore: 200,
+      });
+      await processor.run(1, { checkpoint: { store, id: 'loop' } });
+
+      const events: IterationEvent[] = [];
+      processor.on((e) => events.push(e));
+      await processor.resume((await store.load('loop'))!);
+
+      expect(events[0]).toEqual({ type: 'resume', iteration: 1 });
+    });
+
+    it('should stop notifying a listener unsubscribed during the resumed run', async () => {
+      const store = new MemoryCheckpointStore();
+      const processor = createIterator(createMockOptions((v) => v), {
+        maxIterations: 3,
+        targetScore: 200,
+      });
+      await processor.run(1, { checkpoint: { store, id: 'loop' } });
+
+      const events: IterationEvent['type'][] = [];
+      const unsubscribe = processor.on((e) => {
+        events.push(e.type);
+        if (e.type === 'resume') unsubscribe();
+      });
+      await processor.resume((await store.load('loop'))!);
+
+      expect(events).toEqual(['resume']);
+    });
+  });
+
+  describe('continue', () => {
+    it('should continue a finished run from its final state', async () => {
+      const actedOn: number[] = [];
+      const options = createMockOptions((v) => v * 10);
+      const originalAct = options.act;
+      options.act = async (state, context) => {
+        actedOn.push(state.value);
+        return originalAct(state, context);
+      };
+      const processor = createIterator(options, { maxIterations: 3, targetScore: 90 });
+
+      const first = await processor.run(1);
+      expect(first.terminationReason).toBe('max_iterations');
+
+      const second = await processor.continue(first, { extraIterations: 3 });
+
+      // The skipped final transition runs before continuing, so no state is acted on twice
+      expect(actedOn).toEqual([1, 2, 3, 4, 5, 6]);
+      expect(second.iterations).toBe(6);
+      expect(second.history.map((h) => h.iteration)).toEqual([0, 1, 2, 3, 4, 5]);
+      expect(second.totalCost).toBeCloseTo(0.06);
+      expect(second.totalLatency).toBeGreaterThanOrEqual(first.totalLatency);
+      expect(second.result.finalValue).toBe(6);
+      expect(first.history).toHaveLength(3); // previous result is left untouched
+    });
+
+    it('should stop early when the continued run converges', async () => {
+      const processor = createIterator(createMockOptions((v) => v * 10), {
+        maxIterations: 2,
+        targetScore: 60,
+        minIterations: 1,
+      });
+      const first = await processor.updateConfig({ targetScore: 200 }).run(1);
+      processor.updateConfig({ targetScore: 60 });
+
+      const second = await processor.continue(first, { extraIterations: 5 });
+
+      expect(second.terminationReason).toBe('converged');
+      expect(second.iterations).toBe(5);
+    });
+
+    it('should not initialize again', async () => {
+      let initializeCalls = 0;
+      const options = createMockOptions((v) => v);
+      const originalInitialize = options.initialize;
+      options.initialize = async (input) => {
+        initializeCalls++;
+        return originalInitialize(input);
+      };
+      const processor = createIterator(options, { maxIterations: 1, targetScore: 200 });
+
+      const first = await processor.run(1);
+      await processor.continue(first, { extraIterations: 1 });
+
+      expect(initializeCalls).toBe(1);
+    });
+
+    it('should reject results without a continuation', async () => {
+      const options = createMockOptions();
+      options.act = async () => {
+        throw new Error('Test error');
+      };
+      options.onError = async () => ({ finalValue: -1 });
+      const processor = createIterator(options, { maxIterations: 1 });
+
+      const failed = await processor.run(1);
+
+      const continued = processor.continue(failed, { extraIterations: 1 });
+
+      await expect(continued).rejects.toThrow(ConfigurationError);
+      await expect(continued).rejects.toThrow('Cannot continue a run that ended without a final state');
+    });
+
+    it('should continue a run that stopped early for fewer than minIterations', async () => {
+      const processor = createIterator(createMockOptions((v) => v * 10), {
+        maxIterations: 10,
+        minIterations: 3,
+        earlyStopScore: 5,
+      });
+      const first = await processor.run(1);
+      expect(first.terminationReason).toBe('early_stop');
+      expect(first.iterations).toBe(1);
+
+      const second = await processor.continue(first, { extraIterations: 1 });
+
+      expect(second.iterations).toBe(2);
+      expect(processor.getConfig().minIterations).toBe(3);
+    });
+
+    it('should notify a listener subscribed during the continued run', async () => {
+      const processor = createIterator(createMockOptions((v) => v), { maxIterations: 1, targetScore: 200 });
+      const first = await processor.run(1);
+
+      const events: IterationEvent['type'][] = [];
+      await processor.continue(first, {
+        extraIterations: 1,
+        onEvent: (e) => {
+          if (e.type === 'resume') processor.on((later) => events.push(later.type));
+        },
+      });
+
+      expect(events).toContain('iteration_complete');
+      expect(events.at(-1)).toBe('complete');
+    });
+
+    it('should reject extraIterations that are not positive integers', async () => {
+      const finalize = vi.fn(async (state: TestState) => ({ finalValue: state.value }));
+      const processor = createIterator({ ...createMockOptions(), finalize }, { maxIterations: 1 });
+      const first = await processor.run(1);
+
+      for (const extraIterations of [0, -1, 1.5, NaN]) {
+        await expect(processor.continue(first, { extraIterations })).rejects.toThrow(
+          `extraIterations (${extraIterations}) must be a positive integer`
+        );
+      }
+      expect(finalize).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('iterate', () => {
+    it('should yield each iteration and then the final result', async () => {
+      const processor = createIterator(createMockOptions((v) => v * 10), {
+        maxIterations: 10,
+        targetScore: 70,
+      });
+
+      const updates: IterationUpdate<TestState, number, { finalValue: number }>[] = [];
+      for await (const update of processor.iterate(5)) {
+        updates.push(update);
+      }
+
+      expect(updates.map((u) => u.type)).toEqual(['iteration', 'iteration', 'complete']);
+      const first = updates[0];
+      expect(first.type === 'iteration' && first.state.value).toBe(6);
+      expect(first.type === 'iteration' && first.evaluation.score).toBe(60);
+      const last = updates[2];
+      expect(last.type === 'complete' && last.result.terminationReason).toBe('converged');
+    });
+
+    it('should not run ahead of the consumer', async () => {
+      let actCalls = 0;
+      const options = createMockOptions((v) => v);
+      const originalAct = options.act;
+      options.act = async (state, context) => {
+        actCalls++;
+        return originalAct(state, context);
+      };
+      const processor = createIterator(options, { maxIterations: 5, targetScore: 200 });
+
+      const callsAtYield: number[] = [];
+      for await (const update of processor.iterate(1)) {
+        if (update.type === 'iteration') callsAtYield.push(actCalls);
+      }
+
+      expect(callsAtYield).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should cancel remaining iterations when the consumer breaks out', async () => {
+      let actCalls = 0;
+      let finalized = false;
+      const options = createMockOptions((v) => v);
+      options.act = async (state) => {
+        actCalls++;
+        await new Promise(resolve => setTimeout(resolve, 10));
+        return createActionResult(state.value + 1);
+      };
+      options.finalize = async (state) => {
+        finalized = true;
+        return { finalValue: state.value };
+      };
+      const processor = createIterator(options, { maxIterations: 10, targetScore: 200 });
+
+      for await (const update of processor.iterate(1)) {
+        if (update.type === 'iteration' && update.iteration === 1) break;
+      }
+
+      expect(actCalls).toBe(2);
+      expect(finalized).toBe(true);
+    });
+
+    it('should throw when the run fails', async () => {
+      const options = createMockOptions();
+      options.act = async () => {
+        throw new Error('Test error');
+      };
+      const processor = createIterator(options, { maxIterations: 3 });
+
+      const consume = async () => {
+        for await (const _ of processor.iterate(1)) {
+          // drain
+        }
+      };
+
+      await expect(consume()).rejects.toThrow('Test error');
+    });
+  });
+
+  describe('streaming actions', () => {
+    it('should emit chunks and use the returned action result', async () => {
+      const events: IterationEvent[] = [];
+      const options = createMockOptions();
+      options.act = async function* (state) {
+        yield 'partial-';
+        yield 'output';
+        return createActionResult(state.value + 1, { cost: 0.02 });
+      };
+      const processor = createIterator(options, { maxIterations: 2, targetScore: 200 });
+      processor.on((e) => events.push(e));
+
+      const result = await processor.run(1);
+
+      const chunks = events.filter((e) => e.type === 'action_chunk');
+      expect(chunks).toEqual([
+        { type: 'action_chunk', iteration: 0, index: 0, chunk: 'partial-' },
+        { type: 'action_chunk', iteration: 0, index: 1, chunk: 'output' },
+        { type: 'action_chunk', iteration: 1, index: 0, chunk: 'partial-' },
+        { type: 'action_chunk', iteration: 1, index: 1, chunk: 'output' },
+      ]);
+      expect(result.history[0].actionResult.data).toBe(2);
+      expect(result.totalCost).toBeCloseTo(0.04);
+    });
+
+    it('should emit chunks before the action completes', async () => {
+      const types: string[] = [];
+      const options = createMockOptions();
+      options.act = async function* (state) {
+        yield 'chunk';
+        return createActionResult(state.value + 1);
+      };
+      const processor = createIterator(options, { maxIterations: 1 });
+      processor.on((e) => types.push(e.type));
+
+      await processor.run(1);
+
+      expect(types.indexOf('action_chunk')).toBeLessThan(types.indexOf('action_complete'));
+    });
+
+    it('should close the stream when the act phase times out', async () => {
+      let closed = false;
+      const options = createMockOptions();
+      options.act = async function* (state) {
+        try {
+          yield 'first';
+          await new Promise((resolve) => setTimeout(resolve, 50));
+          yield 'second';
+          return createActionResult(state.value + 1);
+        } finally {
+          closed = true;
+        }
+      };
+      const processor = createIterator(options, {
+        maxIterations: 1,
+        phases: { act: { timeout: 10 } },
+      });
+
+      await expect(processor.run(1)).rejects.toThrow('act phase timed out after 10ms');
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      expect(closed).toBe(true);
+    });
+
+    it('should yield chunk updates from iterate', async () => {
+      const options = createMockOptions();
+      options.act = async function* (state) {
+        yield `token-${state.value}`;
+        return createActionResult(state.value + 1);
+      };
+      const processor = createIterator(options, { maxIterations: 2, targetScore: 200 });
+
+      const updates: IterationUpdate<TestState, number, { finalValue: number }>[] = [];
+      for await (const update of processor.iterate(1)) {
+        updates.push(update);
+      }
+
+      expect(updates.map((u) => u.type)).toEqual(['chunk', 'iteration', 'chunk', 'iteration', 'complete']);
+      const second = updates[2];
+      expect(second.type === 'chunk' && second.chunk).toBe('token-2');
+      expect(second.type === 'chunk' && second.state.value).toBe(2);
+    });
+  });
+
+  describe('runMany', () => {
+    it('should run every input and aggregate the results', async () => {
+      const processor = createIterator(createMockOptions(), { maxIterations: 10, targetScore: 70 });
+
+      const { items, stats } = await processor.runMany([1, 3, 6]);
+
+      expect(items.map((item) => item.status)).toEqual(['fulfilled', 'fulfilled', 'fulfilled']);
+      expect(items.map((item) => item.status === 'fulfilled' && item.result.finalScore)).toEqual([70, 70, 70]);
+      expect(stats).toMatchObject({ total: 3, succeeded: 3, failed: 0, skipped: 0, averageFinalScore: 70 });
+      expect(stats.terminationReasons).toEqual({ converged: 3 });
+      // 6 + 4 + 1 iterations at 0.01 each
+      expect(stats.totalCost).toBeCloseTo(0.11);
+    });
+
+    it('should limit the number of runs in flight', async () => {
+      let active = 0;
+      let maxActive = 0;
+      const options = createMockOptions();
+      options.initialize = async (input) => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        return { value: input, history: [input] };
+      };
+      options.finalize = async (state) => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active--;
+        return { finalValue: state.value };
+      };
+      const processor = createIterator(options, { maxIterations: 1 });
+
+      await processor.runMany([1, 2, 3, 4, 5, 6], { concurrency: 2 });
+
+      expect(maxActive).toBe(2);
+    });
+
+    it('should record failures without rejecting the batch', async () => {
+      const options = createMockOptions();
+      const originalAct = options.act;
+      options.act = async (state, context) => {
+        if (state.value === 2) throw new Error('claim not found');
+        return originalAct(state, context);
+      };
+      const processor = createIterator(options, { maxIterations: 1 });
+
+      const { items, stats } = await processor.runMany([1, 2, 3]);
+
+      expect(items[1]).toMatchObject({ index: 1, input: 2, status: 'rejected' });
+      expect(items[1].status === 'rejected' && items[1].error.message).toBe(
+        'act phase failed in iteration 0: claim not found'
+      );
+      expect(stats).toMatchObject({ succeeded: 2, failed: 1, skipped: 0 });
+    });
+
+    it('should stop after the first failure with stopOnError', async () => {
+      const options = createMockOptions();
+      options.act = async () => {
+        throw new Error('provider down');
+      };
+      const processor = createIterator(options, { maxIterations: 1 });
+
+      const { items, stats } = await processor.runMany([1, 2, 3, 4], { concurrency: 1, stopOnError: true });
+
+      expect(items.map((item) => item.status)).toEqual(['rejected', 'skipped', 'skipped', 'skipped']);
+      expect(stats).toMatchObject({ failed: 1, skipped: 3 });
+    });
+
+    it('should cancel runs in flight and skip the rest when the signal aborts', async () => {
+      const options = createMockOptions();
+      options.act = async (state) => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        return createActionResult(state.value + 1);
+      };
+      const processor = createIterator(options, { maxIterations: 10, targetScore: 200 });
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 30);
+
+      const { items, stats } = await processor.runMany([1, 2, 3, 4], {
+        concurrency: 2,
+        signal: controller.signal,
+      });
+
+      expect(items.slice(0, 2).map((item) => item.status === 'fulfilled' && item.result.terminationReason)).toEqual([
+        'cancelled',
+        'cancelled',
+      ]);
+      expect(stats.skipped).toBe(2);
+      expect(stats.terminationReasons).toEqual({ cancelled: 2 });
+    });
+
+    it('should emit progress events', async () => {
+      const progress: IterationEvent[] = [];
+      const processor = createIterator(createMockOptions(), { maxIterations: 1 });
+      processor.on((e) => {
+        if (e.type === 'batch_progress') progress.push(e);
+      });
+
+      await processor.runMany([1, 2, 3], { concurrency: 1 });
+
+      expect(progress).toEqual([
+        { type: 'batch_progress', index: 0, completed: 1, failed: 0, total: 3 },
+        { type: 'batch_progress', index: 1, completed: 2, failed: 0, total: 3 },
+        { type: 'batch_progress', index: 2, completed: 3, failed: 0, total: 3 },
+      ]);
+    });
+
+    it('should reject an invalid concurrency', async () => {
+      const processor = createIterator(createMockOptions());
+
+      await expect(processor.runMany([1], { concurrency: 0 })).rejects.toThrow(
+        'concurrency (0) must be a positive integer'
+      );
+    });
+  });
+
+  describe('rate limiting', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should gate act and evaluate across runs sharing a limiter', async () => {
+      const calls: number[] = [];
+      const start = Date.now();
+      const options = createMockOptions();
+      const { act, evaluate } = options;
+      options.act = (state, context) => {
+        calls.push(Date.now() - start);
+        return act(state, context);
+      };
+      options.evaluate = (state, actionResult, context) => {
+        calls.push(Date.now() - start);
+        return evaluate(state, actionResult, context);
+      };
+      const limiter = new RateLimiter({ requestsPerMinute: 4 });
+      const first = createIterator(options, { maxIterations: 2, rateLimiter: limiter });
+      const second = createIterator(options, { maxIterations: 2, rateLimiter: limiter });
+
+      const runs = Promise.all([first.run(0), second.run(0)]);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(calls).toHaveLength(4);
+      expect(limiter.pending).toBeGreaterThan(0);
+
+      // The remaining 4 calls are spaced 15 seconds apart
+      await vi.advanceTimersByTimeAsync(60000);
+      const results = await runs;
+
+      expect(results.map((r) => r.iterations)).toEqual([2, 2]);
+      expect(calls).toEqual([0, 0, 0, 0, 15000, 30000, 45000, 60000]);
+    });
+
+    it('should debit tokens reported by the action', async () => {
+      const options = createMockOptions();
+      options.act = async (state) => ({ data: state.value + 1, metadata: { tokens: 400 } });
+      const limiter = new RateLimiter({ tokensPerMinute: 600 });
+      const processor = createIterator(options, { maxIterations: 3, rateLimiter: limiter });
+      let done = false;
+
+      const run = processor.run(0).then((result) => {
+        done = true;
+        return result;
+      });
+      // Calls after the second action wait for the bucket to climb out of debt
+      await vi.advanceTimersByTimeAsync(59000);
+      expect(done).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(done).toBe(true);
+      expect((await run).iterations).toBe(3);
+    });
+
+    it('should leave the queue when the run is cancelled', async () => {
+      const limiter = new RateLimiter({ requestsPerMinute: 1 });
+      const processor = createIterator(createMockOptions(), { maxIterations: 3, rateLimiter: limiter });
+      const controller = new AbortController();
+
+      const run = processor.run(0, { signal: controller.signal });
+      await vi.advanceTimersByTimeAsync(0);
+      expect(limiter.pending).toBe(1);
+
+      controller.abort();
+      const result = await run;
+
+      expect(result.terminationReason).toBe('cancelled');
+      expect(limiter.pending).toBe(0);
+    });
+
+    it('should not store the limiter in checkpoints', async () => {
+      const store = new MemoryCheckpointStore();
+      const limiter = new RateLimiter({ requestsPerMinute: 60 });
+      const processor = createIterator(createMockOptions(), { maxIterations: 1, rateLimiter: limiter });
+
+      await processor.run(0, { checkpoint: { store, id: 'limited' } });
+
+      expect((await store.load('limited'))?.config).not.toHaveProperty('rateLimiter');
+    });
+  });
+
   describe('history tracking', () => {
     it('should record all iterations in history', async () => {
       const processor = createIterator(createMockOptions((v) => v * 10), {
@@ -122,79 +1130,498 @@ describe('IterationProcessor', () => {
         targetScore: 70,
       });
 
-      const result = await processor.run(3); // 3->4->5->6->7 = 4 iterations
+      const result = await processor.run(3); // 3->4->5->6->7 = 4 iterations
+
+      expect(result.history.length).toBe(4);
+      expect(result.history[0].iteration).toBe(0);
+      expect(result.history[0].actionResult.data).toBe(4);
+      expect(result.history[3].actionResult.data).toBe(7);
+    });
+  });
+
+  describe('event system', () => {
+    it('should emit events for each phase', async () => {
+      const events: IterationEvent[] = [];
+      const processor = createIterator(createMockOptions((v) => v * 25), {
+        maxIterations: 5,
+        targetScore: 70,
+      });
+
+      processor.on((event) => events.push(event));
+
+      await processor.run(2); // 2->3 = score 75, converges in 1 iteration
+
+      const eventTypes = events.map((e) => e.type);
+      expect(eventTypes).toContain('start');
+      expect(eventTypes).toContain('iteration_start');
+      expect(eventTypes).toContain('action_complete');
+      expect(eventTypes).toContain('evaluation_complete');
+      expect(eventTypes).toContain('converged');
+      expect(eventTypes).toContain('complete');
+    });
+
+    it('should allow unsubscribing from events', async () => {
+      const events: IterationEvent[] = [];
+      const processor = createIterator(createMockOptions((v) => v * 25), {
+        maxIterations: 5,
+        targetScore: 70,
+      });
+
+      const unsubscribe = processor.on((event) => events.push(event));
+      unsubscribe();
+
+      await processor.run(2);
+
+      expect(events.length).toBe(0);
+    });
+
+    it('should send each run its own events through onEvent', async () => {
+      const shared: IterationEvent[] = [];
+      const first: IterationEvent[] = [];
+      const second: IterationEvent[] = [];
+      const processor = createIterator(createMockOptions((v) => v * 25), {
+        maxIterations: 5,
+        targetScore: 70,
+      });
+      processor.on((event) => shared.push(event));
+
+      await Promise.all([
+        processor.run(1, { onEvent: (event) => first.push(event) }),
+        processor.run(2, { onEvent: (event) => second.push(event) }),
+      ]);
+
+      expect(first[0]).toEqual({ type: 'start', input: 1 });
+      expect(second[0]).toEqual({ type: 'start', input: 2 });
+      expect(first.filter((e) => e.type === 'complete')).toHaveLength(1);
+      expect(second.filter((e) => e.type === 'complete')).toHaveLength(1);
+      expect(shared).toHaveLength(first.length + second.length);
+    });
+  });
+
+  describe('error handling', () => {
+    it('should propagate errors when no error handler provided', async () => {
+      const options = createMockOptions();
+      options.act = async () => {
+        throw new Error('Test error');
+      };
+
+      const processor = createIterator(options, { maxIterations: 3 });
+
+      await expect(processor.run(1)).rejects.toThrow('Test error');
+    });
+
+    it('should use error handler when provided', async () => {
+      const options = createMockOptions();
+      options.act = async () => {
+        throw new Error('Test error');
+      };
+      options.onError = async (error) => ({
+        finalValue: -1,
+      });
+
+      const processor = createIterator(options, { maxIterations: 3 });
+
+      const result = await processor.run(1);
+
+      expect(result.result.finalValue).toBe(-1);
+      expect(result.terminationReason).toBe('manual_stop');
+    });
+
+    it('should report the cost of every candidate in the onError fallback', async () => {
+      const options = createMockOptions();
+      options.act = async (state) => createActionResult(state.value + 1, { cost: 0.01 });
+      options.transition = async () => {
+        throw new Error('Test error');
+      };
+      options.onError = async () => ({ finalValue: -1 });
+
+      const processor = createIterator(options, { maxIterations: 3, candidates: 2 });
+      const result = await processor.run(1);
+
+      expect(result.terminationReason).toBe('manual_stop');
+      expect(result.totalCost).toBeCloseTo(0.02);
+    });
+
+    it('should pass a PhaseError naming the failed phase to onError and the error event', async () => {
+      const events: IterationEvent[] = [];
+      const cause = new Error('evaluator down');
+      const options = createMockOptions();
+      options.evaluate = async (state) => {
+        if (state.value >= 2) throw cause;
+        return createEvaluation(10);
+      };
+      options.onError = vi.fn(async () => ({ finalValue: -1 }));
+
+      const processor = createIterator(options, { maxIterations: 5 });
+      processor.on((e) => events.push(e));
+
+      await processor.run(1);
+
+      const error = vi.mocked(options.onError).mock.calls[0][0];
+      expect(error).toBeInstanceOf(PhaseError);
+      expect(error).toMatchObject({ phase: 'evaluate', iteration: 1, cause });
+      expect(error.message).toBe('evaluate phase failed in iteration 1: evaluator down');
+      expect((error as PhaseError).elapsed).toBeGreaterThanOrEqual(0);
+      const errorEvent = events.find((e) => e.type === 'error');
+      expect(errorEvent?.type === 'error' && errorEvent.error).toBe(error);
+    });
+
+    it.each([
+      ['initialize', 0],
+      ['transition', 0],
+      ['finalize', 2],
+    ] as const)('should report a failed %s phase', async (phase, iteration) => {
+      const options = createMockOptions();
+      options[phase] = async () => {
+        throw new Error(`${phase} broke`);
+      };
+
+      const processor = createIterator(options, { maxIterations: 2 });
+
+      await expect(processor.run(1)).rejects.toMatchObject({
+        name: 'PhaseError',
+        phase,
+        iteration,
+        message: `${phase} phase failed in iteration ${iteration}: ${phase} broke`,
+      });
+    });
+
+    it('should report a phase timeout as the cause', async () => {
+      const options = createMockOptions();
+      options.act = () => new Promise(() => {});
+
+      const processor = createIterator(options, { phases: { act: { timeout: 10 } } });
 
-      expect(result.history.length).toBe(4);
-      expect(result.history[0].iteration).toBe(0);
-      expect(result.history[0].actionResult.data).toBe(4);
-      expect(result.history[3].actionResult.data).toBe(7);
+      const error = await processor.run(1).catch((e) => e);
+
+      expect(error).toBeInstanceOf(PhaseError);
+      expect(error.cause).toBeInstanceOf(TimeoutError);
+      expect(error.cause).toMatchObject({ phase: 'act', timeout: 10, iteration: 0 });
     });
-  });
 
-  describe('event system', () => {
-    it('should emit events for each phase', async () => {
-      const events: IterationEvent[] = [];
-      const processor = createIterator(createMockOptions((v) => v * 25), {
-        maxIterations: 5,
-        targetScore: 70,
-      });
+    it('should abort phase signals with a CancelledError', async () => {
+      let reason: unknown;
+      let started: () => void = () => {};
+      const acting = new Promise<void>((resolve) => (started = resolve));
+      const options = createMockOptions();
+      options.act = (_, context) =>
+        new Promise((_, reject) => {
+          context.signal?.addEventListener('abort', () => {
+            reason = context.signal?.reason;
+            reject(reason);
+          });
+          started();
+        });
+      const controller = new AbortController();
+      const processor = createIterator(options);
 
-      processor.on((event) => events.push(event));
+      const run = processor.run(1, { signal: controller.signal });
+      await acting;
+      controller.abort('user closed the page');
+      const result = await run;
 
-      await processor.run(2); // 2->3 = score 75, converges in 1 iteration
+      expect(result.terminationReason).toBe('cancelled');
+      expect(reason).toBeInstanceOf(CancelledError);
+      expect(reason).toMatchObject({ iteration: 0, cause: 'user closed the page' });
+    });
 
-      const eventTypes = events.map((e) => e.type);
-      expect(eventTypes).toContain('start');
-      expect(eventTypes).toContain('iteration_start');
-      expect(eventTypes).toContain('action_complete');
-      expect(eventTypes).toContain('evaluation_complete');
-      expect(eventTypes).toContain('converged');
-      expect(eventTypes).toContain('complete');
+    it('should throw ConfigurationError for invalid configuration', () => {
+      expect(() => createIterator(createMockOptions(), { candidates: 0 })).toThrow(ConfigurationError);
     });
 
-    it('should allow unsubscribing from events', async () => {
-      const events: IterationEvent[] = [];
-      const processor = createIterator(createMockOptions((v) => v * 25), {
+    it('should stop with circuit_open when a circuit breaker rejects a call', async () => {
+      const breaker = createCircuitBreaker({ failureThreshold: 1, resetTimeout: 60000 });
+      const options = createMockOptions();
+      const { act } = options;
+      options.act = (state, context) =>
+        breaker.execute(async () => {
+          if (state.value >= 3) throw new Error('search API down');
+          return act(state, context);
+        });
+      options.onError = vi.fn();
+
+      const processor = createIterator(options, {
         maxIterations: 5,
-        targetScore: 70,
+        phases: { act: { retry: { maxRetries: 1, initialDelay: 5 } } },
       });
 
-      const unsubscribe = processor.on((event) => events.push(event));
-      unsubscribe();
+      const result = await processor.run(1);
 
-      await processor.run(2);
+      // The failed call opens the circuit and the retry is rejected without running
+      expect(result.terminationReason).toBe('circuit_open');
+      expect(result.iterations).toBe(2);
+      expect(result.result.finalValue).toBe(3);
+      expect(breaker.state).toBe('open');
+      expect(options.onError).not.toHaveBeenCalled();
+    });
 
-      expect(events.length).toBe(0);
+    it('should not retry a phase rejected by an open circuit', async () => {
+      let calls = 0;
+      const options = createMockOptions();
+      options.evaluate = async () => {
+        calls++;
+        throw new CircuitOpenError(1000);
+      };
+
+      const processor = createIterator(options, {
+        phases: { evaluate: { retry: { maxRetries: 3, initialDelay: 5 } } },
+      });
+
+      const result = await processor.run(1);
+
+      expect(calls).toBe(1);
+      expect(result.terminationReason).toBe('circuit_open');
+      expect(result.iterations).toBe(0);
     });
   });
 
-  describe('error handling', () => {
-    it('should propagate errors when no error handler provided', async () => {
+  describe('iteration error recovery', () => {
+    // The search fails once, on the state with the given value
+    function createFlakyOptions(failOn: number, phase: 'act' | 'evaluate' | 'transition' = 'act') {
+      const options = createMockOptions();
+      const original = { act: options.act, evaluate: options.evaluate, transition: options.transition };
+      let failed = false;
+      const maybeFail = (state: TestState) => {
+        if (state.value === failOn && !failed) {
+          failed = true;
+          throw new Error('search timed out');
+        }
+      };
+      options.act = async (state, context) => {
+        if (phase === 'act') maybeFail(state);
+        return original.act(state, context);
+      };
+      options.evaluate = async (state, actionResult, context) => {
+        if (phase === 'evaluate') maybeFail(state);
+        return original.evaluate(state, actionResult, context);
+      };
+      options.transition = async (state, actionResult, evaluation, context) => {
+        if (phase === 'transition') maybeFail(state);
+        return original.transition(state, actionResult, evaluation, context);
+      };
+      return options;
+    }
+
+    it('should record a skipped iteration and continue from the same state', async () => {
+      const options = createFlakyOptions(2);
+      options.onIterationError = vi.fn(async () => 'skip' as const);
+
+      const processor = createIterator(options, { maxIterations: 10 });
+      const result = await processor.run(1);
+
+      expect(result.history.map((h) => h.actionResult?.data)).toEqual([2, undefined, 3, 4, 5, 6, 7]);
+      const skipped = result.history[1];
+      expect(skipped.skipped).toBe(true);
+      expect(skipped.error).toEqual({
+        phase: 'act',
+        message: 'act phase failed in iteration 1: search timed out',
+        iteration: 1,
+        elapsed: expect.any(Number),
+      });
+      expect(JSON.parse(JSON.stringify(skipped))).toEqual(skipped);
+      expect(skipped.evaluation).toBeUndefined();
+      expect(getScoreProgression(result.history)).toHaveLength(6);
+      expect(result.result.finalValue).toBe(6);
+      expect(result.terminationReason).toBe('converged');
+      expect(vi.mocked(options.onIterationError).mock.calls[0][1]).toEqual({ value: 2, history: [1, 2] });
+    });
+
+    it('should drop only the skipped candidate and select among the rest', async () => {
+      const options = createMockOptions();
+      let calls = 0;
+      options.act = async (state) => {
+        const offset = calls++ % 3;
+        if (offset === 2) throw new Error('search timed out');
+        return createActionResult(state.value + offset + 1, { cost: 0.01 });
+      };
+      options.onIterationError = async () => 'skip';
+
+      const processor = createIterator(options, { maxIterations: 1, candidates: 3 });
+      const result = await processor.run(0);
+
+      const [entry] = result.history;
+      expect(entry.skipped).toBeUndefined();
+      expect(entry.actionResult?.data).toBe(2);
+      expect(entry.skippedCandidates).toEqual([
+        { candidate: 2, error: expect.objectContaining({ phase: 'act', iteration: 0 }) },
+      ]);
+      expect(result.totalCost).toBeCloseTo(0.02);
+    });
+
+    it('should report skipped iterations to iterate()', async () => {
+      const options = createFlakyOptions(2);
+      options.onIterationError = async () => 'skip';
+
+      const processor = createIterator(options, { maxIterations: 10 });
+      const steps: IterationStep<TestState, number>[] = [];
+      for await (const update of processor.iterate(1)) {
+        if (update.type === 'iteration') steps.push(update);
+      }
+
+      expect(steps).toHaveLength(7);
+      expect(steps[1].history).toMatchObject({ skipped: true, error: { phase: 'act' } });
+      expect(steps[1].actionResult).toBeUndefined();
+      expect(steps[1].state).toEqual({ value: 2, history: [1, 2] });
+    });
+
+    it('should count skipped iterations toward maxIterations', async () => {
       const options = createMockOptions();
       options.act = async () => {
-        throw new Error('Test error');
+        throw new Error('search API down');
       };
+      options.onIterationError = async () => 'skip';
 
       const processor = createIterator(options, { maxIterations: 3 });
+      const result = await processor.run(1);
 
-      await expect(processor.run(1)).rejects.toThrow('Test error');
+      expect(result.iterations).toBe(3);
+      expect(result.history.every((h) => h.error !== undefined)).toBe(true);
+      expect(result.terminationReason).toBe('max_iterations');
+      expect(result.result.finalValue).toBe(1);
     });
 
-    it('should use error handler when provided', async () => {
+    it('should retry the failed phase without counting an extra iteration', async () => {
+      const options = createFlakyOptions(2, 'evaluate');
+      options.onIterationError = async () => 'retry';
+
+      const processor = createIterator(options, { maxIterations: 10 });
+      const result = await processor.run(1);
+
+      expect(result.history.map((h) => h.evaluation.score)).toEqual([20, 30, 40, 50, 60, 70]);
+      expect(result.history[1].retries).toEqual([
+        { phase: 'evaluate', attempt: 1, error: 'evaluate phase failed in iteration 1: search timed out', delay: 0 },
+      ]);
+    });
+
+    it('should treat retries beyond the phase maxRetries as abort', async () => {
       const options = createMockOptions();
+      let actCalls = 0;
       options.act = async () => {
-        throw new Error('Test error');
+        actCalls++;
+        throw new Error('search API down');
       };
-      options.onError = async (error) => ({
-        finalValue: -1,
-      });
+      options.onIterationError = async () => 'retry';
+      options.onError = async () => ({ finalValue: -1 });
+
+      const capped = await createIterator(options, {
+        maxIterations: 3,
+        phases: { act: { retry: { maxRetries: 0 } } },
+      }).run(1);
+      expect(actCalls).toBe(1);
+      expect(capped.terminationReason).toBe('manual_stop');
 
+      actCalls = 0;
+      const events: IterationEvent[] = [];
       const processor = createIterator(options, { maxIterations: 3 });
+      processor.on((e) => events.push(e));
+      await processor.run(1);
+
+      expect(actCalls).toBe(4);
+      expect(
+        events.flatMap((e) => (e.type === 'iteration_error' ? [e.recovery] : []))
+      ).toEqual(['retry', 'retry', 'retry', 'abort']);
+    });
+
+    it('should not retry once the run is cancelled', async () => {
+      const controller = new AbortController();
+      const options = createMockOptions();
+      let actCalls = 0;
+      options.act = async () => {
+        actCalls++;
+        throw new Error('search API down');
+      };
+      options.onIterationError = async () => {
+        controller.abort();
+        return 'retry';
+      };
+
+      const result = await createIterator(options, { maxIterations: 3 }).run(1, {
+        signal: controller.signal,
+      });
+
+      expect(actCalls).toBe(1);
+      expect(result.terminationReason).toBe('cancelled');
+    });
+
+    it('should use a replacement action result or evaluation', async () => {
+      const actOptions = createFlakyOptions(2, 'act');
+      actOptions.onIterationError = async () => createActionResult(5);
+      const evaluateOptions = createFlakyOptions(2, 'evaluate');
+      evaluateOptions.onIterationError = async () => createEvaluation(80, { shouldContinue: false });
 
+      const replacedAction = await createIterator(actOptions, { maxIterations: 10 }).run(1);
+      const replacedEvaluation = await createIterator(evaluateOptions, { maxIterations: 10 }).run(1);
+
+      expect(replacedAction.history.map((h) => h.actionResult?.data)).toEqual([2, 5, 6, 7]);
+      expect(replacedEvaluation.history.map((h) => h.evaluation.score)).toEqual([20, 80]);
+      expect(replacedEvaluation.terminationReason).toBe('converged');
+    });
+
+    it('should keep the state when a transition is skipped', async () => {
+      const options = createFlakyOptions(2, 'transition');
+      options.onIterationError = async () => 'skip';
+
+      const processor = createIterator(options, { maxIterations: 10 });
       const result = await processor.run(1);
 
-      expect(result.result.finalValue).toBe(-1);
-      expect(result.terminationReason).toBe('manual_stop');
+      expect(result.history.map((h) => h.actionResult?.data)).toEqual([2, 3, 3, 4, 5, 6, 7]);
+      expect(result.history[1]).toMatchObject({ error: { phase: 'transition' } });
+      expect(result.history[1].skipped).toBeUndefined();
+      expect(result.history[1].evaluation.score).toBe(30);
+    });
+
+    it('should emit the iteration once its transition retries and failure are recorded', async () => {
+      const options = createMockOptions();
+      const { transition } = options;
+      options.transition = async (state, actionResult, evaluation, context) => {
+        if (state.value === 2) throw new Error('search timed out');
+        return transition(state, actionResult, evaluation, context);
+      };
+      options.onIterationError = async () => 'skip';
+      const processor = createIterator(options, {
+        maxIterations: 3,
+        phases: { transition: { retry: { maxRetries: 1, initialDelay: 5 } } },
+      });
+      // Serialize at emit time, as the SSE and NDJSON adapters do
+      const emitted: unknown[] = [];
+      processor.on((event) => {
+        if (event.type === 'iteration_complete') emitted.push(JSON.parse(JSON.stringify(event.history)));
+      });
+
+      await processor.run(1);
+
+      expect(emitted[1]).toMatchObject({
+        error: { phase: 'transition' },
+        retries: [{ phase: 'transition', attempt: 1 }],
+      });
+    });
+
+    it('should end the run through onError on abort or an unfitting replacement', async () => {
+      for (const decision of ['abort', createEvaluation(90)] as const) {
+        const options = createFlakyOptions(2, 'act');
+        options.onIterationError = async () => decision;
+        options.onError = vi.fn(async () => ({ finalValue: -1 }));
+
+        const result = await createIterator(options, { maxIterations: 10 }).run(1);
+
+        expect(result.terminationReason).toBe('manual_stop');
+        expect(vi.mocked(options.onError).mock.calls[0][0]).toMatchObject({ phase: 'act', iteration: 1 });
+      }
+    });
+
+    it('should emit iteration_error events with the recovery', async () => {
+      const events: IterationEvent[] = [];
+      const options = createFlakyOptions(2);
+      options.onIterationError = async () => 'skip';
+
+      const processor = createIterator(options, { maxIterations: 10 });
+      processor.on((e) => events.push(e));
+      await processor.run(1);
+
+      const errorEvents = events.filter((e) => e.type === 'iteration_error');
+      expect(errorEvents).toHaveLength(1);
+      expect(errorEvents[0]).toMatchObject({ iteration: 1, recovery: 'skip' });
+      expect(events.some((e) => e.type === 'error')).toBe(false);
     });
   });
 
@@ -482,6 +1909,38 @@ describe('IterationProcessor', () => {
       expect(result.iterations).toBeLessThan(10);
     });
 
+    it('should interrupt a slow phase when the deadline passes', async () => {
+      let phaseSignal: AbortSignal | undefined;
+      let finalizeHistoryLength = -1;
+      const options = createMockOptions((v) => v);
+      options.act = async (state, context) => {
+        if (state.value === 2) {
+          phaseSignal = context.signal;
+          await new Promise(resolve => setTimeout(resolve, 1000));
+        }
+        return createActionResult(state.value + 1, { cost: 0.01 });
+      };
+      options.finalize = async (state, history) => {
+        finalizeHistoryLength = history.length;
+        return { finalValue: state.value };
+      };
+
+      const processor = createIterator(options, {
+        maxIterations: 10,
+        targetScore: 200,
+        timeout: 50,
+      });
+
+      const start = Date.now();
+      const result = await processor.run(1);
+
+      expect(Date.now() - start).toBeLessThan(500);
+      expect(result.terminationReason).toBe('timeout');
+      expect(result.iterations).toBe(1);
+      expect(finalizeHistoryLength).toBe(1);
+      expect(phaseSignal?.aborted).toBe(true);
+    });
+
     it('should handle timeout in first iteration', async () => {
       const options = createMockOptions();
       options.initialize = async (input) => {
@@ -499,6 +1958,184 @@ describe('IterationProcessor', () => {
       expect(result.terminationReason).toBe('timeout');
       expect(result.iterations).toBe(0);
     });
+
+    it('should finalize the initial state when initialize overruns the deadline', async () => {
+      let initializeSignal: AbortSignal | undefined;
+      let finalizeHistory: unknown[] | undefined;
+      const options = createMockOptions();
+      options.initialize = async (input, signal) => {
+        initializeSignal = signal;
+        await new Promise(resolve => setTimeout(resolve, 100));
+        return { value: input, history: [input] };
+      };
+      options.finalize = async (state, history) => {
+        finalizeHistory = history;
+        return { finalValue: state.value };
+      };
+
+      const processor = createIterator(options, { maxIterations: 5, timeout: 50 });
+      const result = await processor.run(1);
+
+      expect(initializeSignal?.aborted).toBe(true);
+      expect(finalizeHistory).toEqual([]);
+      expect(result.result.finalValue).toBe(1);
+    });
+  });
+
+  describe('phase policies', () => {
+    it('should retry a failing phase and record the retries', async () => {
+      const events: IterationEvent[] = [];
+      let actCalls = 0;
+      const options = createMockOptions();
+      options.act = async (state) => {
+        actCalls++;
+        if (actCalls === 1) throw new Error('flaky search');
+        return createActionResult(state.value + 1, { cost: 0.01 });
+      };
+
+      const processor = createIterator(options, {
+        maxIterations: 1,
+        phases: { act: { retry: { maxRetries: 2, initialDelay: 5 } } },
+      });
+      processor.on((e) => events.push(e));
+
+      const result = await processor.run(1);
+
+      expect(actCalls).toBe(2);
+      expect(result.history[0].retries).toEqual([
+        { phase: 'act', attempt: 1, error: 'flaky search', delay: 5 },
+      ]);
+      const retryEvents = events.filter((e) => e.type === 'retry');
+      expect(retryEvents).toHaveLength(1);
+    });
+
+    it('should fail once retries are exhausted', async () => {
+      const options = createMockOptions();
+      options.act = async () => {
+        throw new Error('always down');
+      };
+
+      const processor = createIterator(options, {
+        maxIterations: 3,
+        phases: { act: { retry: { maxRetries: 1, initialDelay: 5 } } },
+      });
+
+      await expect(processor.run(1)).rejects.toThrow('always down');
+    });
+
+    it('should time out a slow phase and abort its signal', async () => {
+      let evaluateSignal: AbortSignal | undefined;
+      const options = createMockOptions();
+      options.evaluate = async (state, actionResult, context) => {
+        evaluateSignal = context.signal;
+        await new Promise(resolve => setTimeout(resolve, 1000));
+        return createEvaluation(50);
+      };
+
+      const processor = createIterator(options, {
+        maxIterations: 3,
+        phases: { evaluate: { timeout: 20 } },
+      });
+
+      await expect(processor.run(1)).rejects.toThrow('evaluate phase timed out after 20ms');
+      expect(evaluateSignal?.aborted).toBe(true);
+    });
+
+    it('should retry a timed out phase', async () => {
+      let evaluateCalls = 0;
+      const options = createMockOptions();
+      options.evaluate = async () => {
+        evaluateCalls++;
+        if (evaluateCalls === 1) {
+          await new Promise(resolve => setTimeout(resolve, 1000));
+        }
+        return createEvaluation(80);
+      };
+
+      const processor = createIterator(options, {
+        maxIterations: 3,
+        phases: { evaluate: { timeout: 20, retry: { maxRetries: 1, initialDelay: 5 } } },
+      });
+
+      const result = await processor.run(1);
+
+      expect(evaluateCalls).toBe(2);
+      expect(result.converged).toBe(true);
+      expect(result.history[0].retries?.[0].phase).toBe('evaluate');
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should stop with cancelled reason when the signal aborts mid-phase', async () => {
+      const controller = new AbortController();
+      let actionCount = 0;
+      const options = createMockOptions((v) => v);
+      options.act = async (state) => {
+        actionCount++;
+        if (actionCount === 2) {
+          controller.abort();
+          await new Promise(resolve => setTimeout(resolve, 1000));
+        }
+        return createActionResult(state.value + 1, { cost: 0.01 });
+      };
+
+      const processor = createIterator(options, {
+        maxIterations: 5,
+        targetScore: 200,
+      });
+
+      const result = await processor.run(1, { signal: controller.signal });
+
+      expect(result.terminationReason).toBe('cancelled');
+      expect(result.history.length).toBe(1);
+      expect(result.result.finalValue).toBe(2); // finalize still runs
+    });
+
+    it('should abort the phase signal when the run is cancelled', async () => {
+      const controller = new AbortController();
+      let phaseSignal: AbortSignal | undefined;
+      const options = createMockOptions();
+      const originalAct = options.act;
+      options.act = async (state, context) => {
+        phaseSignal = context.signal;
+        expect(phaseSignal?.aborted).toBe(false);
+        controller.abort();
+        return originalAct(state, context);
+      };
+
+      const processor = createIterator(options, { maxIterations: 3 });
+      await processor.run(1, { signal: controller.signal });
+
+      expect(phaseSignal?.aborted).toBe(true);
+    });
+
+    it('should not run any iteration when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const processor = createIterator(createMockOptions(), { maxIterations: 5 });
+
+      const result = await processor.run(1, { signal: controller.signal });
+
+      expect(result.terminationReason).toBe('cancelled');
+      expect(result.iterations).toBe(0);
+    });
+
+    it('should finalize with cancelled when the run is cancelled during initialize', async () => {
+      const controller = new AbortController();
+      const options = createMockOptions();
+      options.initialize = async (input, signal) => {
+        setTimeout(() => controller.abort(), 10);
+        await new Promise((resolve) => signal.addEventListener('abort', resolve, { once: true }));
+        return { value: input, history: [input] };
+      };
+      const processor = createIterator(options, { maxIterations: 5 });
+
+      const result = await processor.run(1, { signal: controller.signal });
+
+      expect(result.terminationReason).toBe('cancelled');
+      expect(result.iterations).toBe(0);
+      expect(result.result.finalValue).toBe(1);
+    });
   });
 
   describe('dynamic configuration', () => {
@@ -567,6 +2204,27 @@ describe('IterationProcessor', () => {
       }).toThrow('minIterations (5) cannot be greater than maxIterations (3)');
     });
 
+    it('should throw error when candidates is not a positive integer', () => {
+      expect(() => createIterator(createMockOptions(), { candidates: 0 })).toThrow(
+        'candidates (0) must be a positive integer'
+      );
+      expect(() => createIterator(createMockOptions()).updateConfig({ candidates: 1.5 })).toThrow(
+        'candidates (1.5) must be a positive integer'
+      );
+    });
+
+    it('should throw error when plateau is invalid', () => {
+      expect(() => createIterator(createMockOptions(), { plateau: { window: 0 } })).toThrow(
+        'plateau.window (0) must be a positive integer'
+      );
+      expect(() => createIterator(createMockOptions(), { plateau: { window: 2, minDelta: -1 } })).toThrow(
+        'plateau.minDelta (-1) must not be negative'
+      );
+      expect(() => createIterator(createMockOptions()).updateConfig({ plateau: { window: 1.5 } })).toThrow(
+        ConfigurationError
+      );
+    });
+
     it('should accept valid configurations', () => {
       expect(() => {
         createIterator(createMockOptions(), {
@@ -18,12 +18,79 @@ import type {
   ResolvedConfig,
   IterationContext,
   IterationHistory,
+  CompletedIteration,
+  SkippedIteration,
+  IterationFailure,
+  SkippedCandidate,
   IterationResult,
   IterationOptions,
   IterationEvent,
   IterationEventListener,
   Evaluation,
+  RunOptions,
+  TerminationReason,
+  IterationPhase,
+  PhaseRetry,
+  IterationSnapshot,
+  IterationCheckpoint,
+  ContinueOptions,
+  IterationStep,
+  IterationUpdate,
+  ActionResult,
+  ActionChunk,
+  IterationCandidate,
+  RunManyOptions,
+  BatchItem,
+  BatchResult,
+  BatchStats,
+  IterationErrorDecision,
 } from './types.js';
+import { sleep, isImproving, getLastEvaluation, raceSignal, isActionStream } from './utils.js';
+import {
+  CircuitOpenError,
+  ConfigurationError,
+  PhaseError,
+  TimeoutError,
+} from './errors.js';
+import { RunScope } from './run.js';
+
+/**
+ * Mutable progress of a run, restorable from a checkpoint
+ */
+interface LoopState<State, ActionData> {
+  state: State;
+  history: IterationHistory<ActionData>[];
+  /** Index of the next iteration to run */
+  iteration: number;
+  lastEvaluation?: Evaluation;
+  totalCost: number;
+  best?: IterationSnapshot<State, ActionData>;
+  /** State before the last transition, and the score that justified it; cleared by a rollback */
+  rollbackPoint?: { state: State; score: number };
+  rollbacks: number;
+  /** The last recorded iteration has not been transitioned yet */
+  pendingTransition?: boolean;
+}
+
+/**
+ * Thrown to skip an iteration after `onIterationError` returned 'skip'
+ */
+class IterationSkip<ActionData> {
+  constructor(
+    readonly error: PhaseError,
+    /** Result of `act` when a later phase failed */
+    readonly actionResult?: ActionResult<ActionData>
+  ) {}
+}
+
+/**
+ * Evaluation reported before any iteration has run
+ */
+const EMPTY_EVALUATION: Evaluation = {
+  score: 0,
+  shouldContinue: true,
+  feedback: '',
+};
 
 export class IterationProcessor<Input, State, ActionData, Result> {
   private config: ResolvedConfig;
@@ -38,10 +105,12 @@ export class IterationProcessor<Input, State, ActionData, Result> {
     const minIterations = config.minIterations ?? 1;
     
     if (minIterations > maxIterations) {
-      throw new Error(
+      throw new ConfigurationError(
         `Invalid configuration: minIterations (${minIterations}) cannot be greater than maxIterations (${maxIterations})`
       );
     }
+    validateCandidates(config.candidates);
+    validatePlateau(config.plateau);
     
     this.config = {
       maxIterations,
@@ -52,6 +121,15 @@ export class IterationProcessor<Input, State, ActionData, Result> {
       verbose: config.verbose ?? false,
       alwaysRunTransition: config.alwaysRunTransition ?? false,
       skipMinIterations: config.skipMinIterations ?? false,
+      rollbackOnRegression: config.rollbackOnRegression ?? false,
+      maxRollbacks: config.maxRollbacks ?? 3,
+      candidates: config.candidates ?? 1,
+      finalizeFrom: config.finalizeFrom ?? 'last',
+      maxCost: config.maxCost,
+      maxCostPerIteration: config.maxCostPerIteration,
+      plateau: config.plateau,
+      phases: config.phases,
+      rateLimiter: config.rateLimiter,
       logger: config.logger,
     };
   }
@@ -98,109 +176,854 @@ export class IterationProcessor<Input, State, ActionData, Result> {
     }
   }
 
+  /**
+   * Run a loop phase with its configured timeout and retry policy
+   *
+   * Each attempt gets its own signal, aborted when the attempt times out
+   * or the run itself is aborted. Retries are appended to `retries`.
+   * A failure that is not due to the run being aborted is rethrown as a
+   * `PhaseError`.
+   */
+  private async runPhase<T>(
+    phase: IterationPhase,
+    iteration: number,
+    startTime: number,
+    runSignal: AbortSignal,
+    retries: PhaseRetry[],
+    fn: (signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    const policy = this.config.phases?.[phase];
+    const {
+      maxRetries = 3,
+      initialDelay = 1000,
+      maxDelay = 10000,
+      backoffFactor = 2,
+    } = policy?.retry ?? { maxRetries: 0 };
+    let delay = initialDelay;
+
+    for (let attempt = 0; ; attempt++) {
+      const controller = new AbortController();
+      const forwardAbort = () => controller.abort(runSignal.reason);
+      runSignal.addEventListener('abort', forwardAbort, { once: true });
+      const timeout = policy?.timeout;
+      const timer = timeout
+        ? setTimeout(
+            () =>
+              controller.abort(
+                new TimeoutError(`${phase} phase timed out after ${timeout}ms`, timeout, {
+                  iteration,
+                  phase,
+                  elapsed: timeout,
+                })
+              ),
+            timeout
+          )
+        : undefined;
+
+      try {
+        return await raceSignal(fn(controller.signal), controller.signal);
+      } catch (error) {
+        // Retrying cannot help while a circuit breaker rejects calls
+        if (runSignal.aborted || error instanceof CircuitOpenError) throw error;
+        if (attempt >= maxRetries) {
+          throw new PhaseError(phase, { iteration, elapsed: Date.now() - startTime, cause: error });
+        }
+
+        const err = error instanceof Error ? error : new Error(String(error));
+        retries.push({ phase, attempt: attempt + 1, error: err.message, delay });
+        this.emit({ type: 'retry', iteration, phase, attempt: attempt + 1, error: err, delay });
+        this.log(`Retrying ${phase} phase`, { attempt: attempt + 1, delay, error: err.message });
+
+        await raceSignal(sleep(delay), runSignal);
+        delay = Math.min(delay * backoffFactor, maxDelay);
+      } finally {
+        clearTimeout(timer);
+        runSignal.removeEventListener('abort', forwardAbort);
+      }
+    }
+  }
+
+  /**
+   * Run a phase, letting `onIterationError` decide what happens when it fails
+   *
+   * Returns the phase's result or a replacement that `accepts` takes.
+   * 'skip' throws an `IterationSkip` carrying `actionResult`; 'abort'
+   * and unfitting replacements rethrow the `PhaseError`. 'retry' runs the
+   * phase again up to the phase's `maxRetries` (default 3) times, after
+   * which it counts as 'abort'.
+   */
+  private async recoverPhase<T>(
+    run: () => Promise<T>,
+    state: State,
+    context: IterationContext,
+    runSignal: AbortSignal,
+    retries: PhaseRetry[],
+    accepts: (replacement: IterationErrorDecision<ActionData>) => replacement is IterationErrorDecision<ActionData> & T,
+    actionResult?: ActionResult<ActionData>
+  ): Promise<T> {
+    for (let retried = 0; ; retried++) {
+      try {
+        return await run();
+      } catch (error) {
+        const { onIterationError } = this.options;
+        if (!onIterationError || !(error instanceof PhaseError) || runSignal.aborted) throw error;
+
+        const phase = error.phase as IterationPhase;
+        const maxRetries = this.config.phases?.[phase]?.retry?.maxRetries ?? 3;
+        const decision = await onIterationError(error, state, context);
+        const replacement = typeof decision === 'object' && accepts(decision) ? decision : undefined;
+        const recovery =
+          decision === 'skip' || (decision === 'retry' && retried < maxRetries)
+            ? decision
+            : replacement
+              ? 'replace'
+              : 'abort';
+        this.emit({ type: 'iteration_error', iteration: context.iteration, error, recovery });
+        this.log(`${phase} phase failed`, { recovery, error: error.message });
+
+        if (recovery === 'retry') {
+          const attempt = retries.filter((retry) => retry.phase === phase).length + 1;
+          retries.push({ phase, attempt, error: error.message, delay: 0 });
+          // Let timers and aborts fire between attempts
+          await raceSignal(sleep(0), runSignal);
+          continue;
+        }
+        if (recovery === 'skip') throw new IterationSkip(error, actionResult);
+        if (replacement) return replacement;
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Act on the state and evaluate the result for one candidate
+   * (Sprint Execution and Sprint Review)
+   *
+   * Events carry the candidate number only when several candidates run.
+   */
+  private async runCandidate(
+    index: number,
+    state: State,
+    context: IterationContext,
+    startTime: number,
+    runSignal: AbortSignal,
+    retries: PhaseRetry[],
+    onChunk?: (chunk: ActionChunk<State>) => void | Promise<void>
+  ): Promise<IterationCandidate<ActionData>> {
+    const i = context.iteration;
+    const tag = this.config.candidates > 1 ? { candidate: index } : {};
+
+    const { rateLimiter } = this.config;
+
+    const actionResult = await this.recoverPhase(
+      () =>
+        this.runPhase('act', i, startTime, runSignal, retries, async (phaseSignal) => {
+          await rateLimiter?.acquire({ signal: phaseSignal });
+          return this.performAction(state, { ...context, signal: phaseSignal }, tag.candidate, onChunk);
+        }),
+      state,
+      context,
+      runSignal,
+      retries,
+      isActionResult
+    );
+    if (actionResult.metadata?.tokens) {
+      rateLimiter?.consume(actionResult.metadata.tokens);
+    }
+    this.emit({ type: 'action_complete', iteration: i, result: actionResult, ...tag });
+    this.log(`Action complete`, { ...tag, dataSize: JSON.stringify(actionResult.data).length });
+
+    const evaluation = await this.recoverPhase(
+      () =>
+        this.runPhase('evaluate', i, startTime, runSignal, retries, async (phaseSignal) => {
+          await rateLimiter?.acquire({ signal: phaseSignal });
+          return this.options.evaluate(state, actionResult, { ...context, signal: phaseSignal });
+        }),
+      state,
+      context,
+      runSignal,
+      retries,
+      isEvaluation,
+      actionResult
+    );
+    this.emit({ type: 'evaluation_complete', iteration: i, evaluation, ...tag });
+    this.log(`Evaluation complete`, { ...tag, score: evaluation.score, shouldContinue: evaluation.shouldContinue });
+
+    return { candidate: index, actionResult, evaluation };
+  }
+
+  /**
+   * Run the act phase, draining the chunks of a streaming action
+   */
+  private async performAction(
+    state: State,
+    context: IterationContext,
+    candidate: number | undefined,
+    onChunk?: (chunk: ActionChunk<State>) => void | Promise<void>
+  ): Promise<ActionResult<ActionData>> {
+    const output = this.options.act(state, context);
+    if (!isActionStream(output)) return output;
+    // Read through AsyncIterator, whose `return` can close the stream without a result
+    const stream: AsyncIterator<unknown, ActionResult<ActionData>, undefined> = output;
+
+    for (let index = 0; ; index++) {
+      // A timed-out or cancelled attempt stops reading and closes the stream
+      if (context.signal?.aborted) {
+        await stream.return?.();
+        throw context.signal.reason;
+      }
+      const next = await stream.next();
+      if (next.done) return next.value;
+
+      const chunk = { iteration: context.iteration, index, chunk: next.value, ...(candidate !== undefined && { candidate }) };
+      this.emit({ type: 'action_chunk', ...chunk });
+      await onChunk?.({ ...chunk, state, context });
+    }
+  }
+
   /**
    * Run the iteration loop
+   *
+   * @param input - Input passed to `initialize`
+   * @param options - Per-run options such as an `AbortSignal`
+   */
+  async run(input: Input, options: RunOptions = {}): Promise<IterationResult<Result, ActionData, State>> {
+    const processor = this.forRun(options);
+    processor.emit({ type: 'start', input });
+    processor.log('Starting iteration loop', { maxIterations: this.config.maxIterations });
+
+    return processor.execute(options, 0, (runSignal) => processor.initializeLoop(input, runSignal));
+  }
+
+  /**
+   * Processor to run on: this one, or a copy with `config` applied whose
+   * events also reach `onEvent`
+   *
+   * The copy forwards every event to this processor's listeners, so
+   * `onEvent` only ever sees the events of the run it was passed to.
+   */
+  private forRun(
+    options: RunOptions,
+    config?: Partial<IterationConfig>
+  ): IterationProcessor<Input, State, ActionData, Result> {
+    if (!options.onEvent && !config) return this;
+
+    const processor = this.withConfig(config ?? {});
+    processor.listeners = [(event) => this.emit(event)];
+    if (options.onEvent) processor.listeners.push(options.onEvent);
+    return processor;
+  }
+
+  /**
+   * Run the iteration loop as an async iterable
+   *
+   * Yields an `'iteration'` update after each iteration and a final
+   * `'complete'` update with the `IterationResult`. Streaming actions
+   * also yield a `'chunk'` update per chunk. Leaving the `for await`
+   * loop early cancels the remaining iterations.
+   *
+   * @example
+   * ```typescript
+   * for await (const update of processor.iterate(input)) {
+   *   if (update.type === 'iteration') {
+   *     console.log(update.iteration, update.evaluation.score);
+   *   } else {
+   *     console.log('done', update.result.terminationReason);
+   *   }
+   * }
+   * ```
+   */
+  async *iterate(
+    input: Input,
+    options: RunOptions = {}
+  ): AsyncGenerator<IterationUpdate<State, ActionData, Result>, void, undefined> {
+    const { signal } = options;
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort(signal?.reason);
+    if (signal?.aborted) {
+      forwardAbort();
+    } else {
+      signal?.addEventListener('abort', forwardAbort, { once: true });
+    }
+
+    // Each queued update resolves `consumed` once the consumer asks for the next one,
+    // so the loop never runs ahead of the consumer
+    const queue: { update: IterationUpdate<State, ActionData, Result>; consumed: () => void }[] = [];
+    let wake: (() => void) | undefined;
+    let settled = false;
+    let failure: { error: unknown } | undefined;
+    let inFlight: (() => void) | undefined;
+    const push = (update: IterationUpdate<State, ActionData, Result>) =>
+      new Promise<void>((consumed) => {
+        queue.push({ update, consumed });
+        wake?.();
+      });
+
+    const processor = this.forRun(options);
+    processor.emit({ type: 'start', input });
+    processor.log('Starting iteration loop', { maxIterations: this.config.maxIterations });
+
+    const running = processor.execute(
+      { ...options, signal: controller.signal },
+      0,
+      (runSignal) => processor.initializeLoop(input, runSignal),
+      (step) => push({ type: 'iteration', ...step }),
+      (chunk) => push({ type: 'chunk', ...chunk })
+    )
+      .then(
+        (result) => {
+          push({ type: 'complete', result });
+        },
+        (error) => {
+          failure = { error };
+        }
+      )
+      .finally(() => {
+        settled = true;
+        wake?.();
+      });
+
+    try {
+      while (true) {
+        const item = queue.shift();
+        if (item) {
+          inFlight = item.consumed;
+          yield item.update;
+          inFlight = undefined;
+          item.consumed();
+          if (item.update.type === 'complete') return;
+          continue;
+        }
+        if (settled) {
+          if (failure) throw failure.error;
+          return;
+        }
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+        wake = undefined;
+      }
+    } finally {
+      // Stops the remaining iterations when the consumer leaves early
+      controller.abort();
+      inFlight?.();
+      for (const item of queue) item.consumed();
+      await running;
+      signal?.removeEventListener('abort', forwardAbort);
+    }
+  }
+
+  /**
+   * Run the loop over many inputs with limited concurrency
+   *
+   * Failed runs are recorded instead of rejecting the batch. A
+   * `'batch_progress'` event is emitted as each run settles; the runs'
+   * own events go to the same listeners and interleave.
+   *
+   * @example
+   * ```typescript
+   * const { items, stats } = await processor.runMany(claims, { concurrency: 5 });
+   * console.log(stats.averageFinalScore, stats.terminationReasons);
+   * ```
    */
-  async run(input: Input): Promise<IterationResult<Result, ActionData>> {
+  async runMany(
+    inputs: Input[],
+    options: RunManyOptions = {}
+  ): Promise<BatchResult<Input, Result, ActionData, State>> {
+    const { concurrency = 4, stopOnError = false, signal } = options;
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new ConfigurationError(`Invalid batch options: concurrency (${concurrency}) must be a positive integer`);
+    }
+
     const startTime = Date.now();
-    const history: IterationHistory<ActionData>[] = [];
-    let state: State | undefined;
-    let finalEvaluation: Evaluation = {
-      score: 0,
-      shouldContinue: true,
-      feedback: '',
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort(signal?.reason);
+    if (signal?.aborted) {
+      forwardAbort();
+    } else {
+      signal?.addEventListener('abort', forwardAbort, { once: true });
+    }
+
+    const items: BatchItem<Input, Result, ActionData, State>[] = inputs.map((input, index) => ({
+      index,
+      input,
+      status: 'skipped',
+    }));
+    let nextIndex = 0;
+    let completed = 0;
+    let failed = 0;
+
+    // Each worker takes the next input until none are left or the batch stops
+    const worker = async () => {
+      while (nextIndex < inputs.length && !controller.signal.aborted) {
+        const index = nextIndex++;
+        const input = inputs[index];
+        try {
+          const result = await this.run(input, { signal: controller.signal });
+          items[index] = { index, input, status: 'fulfilled', result };
+        } catch (error) {
+          const err = error instanceof Error ? error : new Error(String(error));
+          items[index] = { index, input, status: 'rejected', error: err };
+          failed++;
+          if (stopOnError) controller.abort(err);
+        }
+        completed++;
+        this.emit({ type: 'batch_progress', index, completed, failed, total: inputs.length });
+      }
     };
-    let terminationReason: IterationResult<Result, ActionData>['terminationReason'] =
-      'max_iterations';
 
-    this.emit({ type: 'start', input });
-    this.log('Starting iteration loop', { maxIterations: this.config.maxIterations });
+    try {
+      await Promise.all(Array.from({ length: Math.min(concurrency, inputs.length) }, worker));
+    } finally {
+      signal?.removeEventListener('abort', forwardAbort);
+    }
+
+    return { items, stats: this.summarizeBatch(items, Date.now() - startTime) };
+  }
+
+  /**
+   * Aggregate statistics of a finished batch
+   */
+  private summarizeBatch(
+    items: BatchItem<Input, Result, ActionData, State>[],
+    totalLatency: number
+  ): BatchStats {
+    const results = items.flatMap((item) => (item.status === 'fulfilled' ? [item.result] : []));
+    const terminationReasons: Partial<Record<TerminationReason, number>> = {};
+    for (const result of results) {
+      terminationReasons[result.terminationReason] = (terminationReasons[result.terminationReason] ?? 0) + 1;
+    }
+
+    return {
+      total: items.length,
+      succeeded: results.length,
+      failed: items.filter((item) => item.status === 'rejected').length,
+      skipped: items.filter((item) => item.status === 'skipped').length,
+      averageFinalScore:
+        results.length > 0 ? results.reduce((sum, r) => sum + r.finalScore, 0) / results.length : 0,
+      terminationReasons,
+      totalCost: results.reduce((sum, r) => sum + r.totalCost, 0),
+      totalLatency,
+    };
+  }
 
+  /**
+   * Initialize state for a fresh loop
+   * (Sprint Planning)
+   *
+   * `initialize` receives the run's signal but is always awaited, so a run
+   * cancelled or timed out meanwhile still finalizes its initial state.
+   */
+  private async initializeLoop(input: Input, runSignal: AbortSignal): Promise<LoopState<State, ActionData>> {
+    const startTime = Date.now();
+    let state: State;
     try {
-      // 1. Initialize (Sprint Planning)
-      state = await this.options.initialize(input);
-      this.log('Initialized state');
+      state = await this.options.initialize(input, runSignal);
+    } catch (error) {
+      if (runSignal.aborted) throw error;
+      throw new PhaseError('initialize', { iteration: 0, elapsed: Date.now() - startTime, cause: error });
+    }
+    this.log('Initialized state');
+    return { state, history: [], iteration: 0, totalCost: 0, rollbacks: 0 };
+  }
+
+  /**
+   * Resume a loop from a checkpoint
+   *
+   * The loop continues with the configuration stored in the checkpoint,
+   * starting at the iteration after the last one recorded. Elapsed time,
+   * cost and history carry over.
+   *
+   * @param checkpoint - Checkpoint saved by a previous run
+   * @param options - Per-run options; pass `checkpoint` to keep saving
+   */
+  async resume(
+    checkpoint: IterationCheckpoint<ActionData>,
+    options: RunOptions = {}
+  ): Promise<IterationResult<Result, ActionData, State>> {
+    // Reject before the run starts, so `onError` cannot turn this into a result
+    if (checkpoint.version !== 1) {
+      throw new ConfigurationError(`Unsupported checkpoint version: ${checkpoint.version}`);
+    }
+    const processor = this.forRun(options, checkpoint.config);
+
+    processor.emit({ type: 'resume', iteration: checkpoint.iteration });
+    processor.log('Resuming iteration loop', { iteration: checkpoint.iteration });
+
+    return processor.execute(options, checkpoint.elapsedTime, async () =>
+      processor.restoreCheckpoint(checkpoint)
+    );
+  }
+
+  /**
+   * Continue a finished run with additional iterations
+   *
+   * Picks up from the final state of `previous` instead of calling
+   * `initialize` again. The returned result has cumulative history, cost
+   * and latency. A configured `timeout` applies to the new iterations only.
+   *
+   * @example
+   * ```typescript
+   * const first = await processor.run(input);
+   * if (!first.converged) {
+   *   const more = await processor.continue(first, { extraIterations: 3 });
+   * }
+   * ```
+   */
+  async continue(
+    previous: IterationResult<Result, ActionData, State>,
+    options: ContinueOptions
+  ): Promise<IterationResult<Result, ActionData, State>> {
+    const { continuation } = previous;
+    if (!continuation) {
+      throw new ConfigurationError('Cannot continue a run that ended without a final state');
+    }
+
+    const { extraIterations, ...runOptions } = options;
+    if (!Number.isInteger(extraIterations) || extraIterations < 1) {
+      throw new ConfigurationError(`Invalid continue options: extraIterations (${extraIterations}) must be a positive integer`);
+    }
+    const { timeout, minIterations } = this.config;
+    const maxIterations = continuation.iteration + extraIterations;
+    const processor = this.forRun(runOptions, {
+      maxIterations,
+      // A run that stopped early may be continued for fewer than `minIterations`
+      minIterations: Math.min(minIterations, maxIterations),
+      timeout: timeout ? previous.totalLatency + timeout : undefined,
+    });
+
+    processor.emit({ type: 'resume', iteration: continuation.iteration });
+    processor.log('Continuing iteration loop', { iteration: continuation.iteration, extraIterations });
+
+    return processor.execute(runOptions, previous.totalLatency, async () => ({
+      state: continuation.state,
+      history: [...previous.history],
+      iteration: continuation.iteration,
+      lastEvaluation: getLastEvaluation(previous.history),
+      totalCost: previous.totalCost,
+      best: previous.bestIteration,
+      rollbackPoint: continuation.rollbackPoint,
+      rollbacks: continuation.rollbacks,
+      pendingTransition: continuation.pendingTransition,
+    }));
+  }
+
+  /**
+   * Drive the loop from the state produced by `setup` until it terminates
+   *
+   * @param elapsedBefore - Time already spent in earlier segments of the same loop
+   * @param setup - Receives the run's signal, which aborts on cancellation and at the deadline
+   * @param onIteration - Called after each iteration, once its state is settled
+   * @param onChunk - Called for each chunk a streaming action yields
+   */
+  private async execute(
+    options: RunOptions,
+    elapsedBefore: number,
+    setup: (runSignal: AbortSignal) => Promise<LoopState<State, ActionData>>,
+    onIteration?: (step: IterationStep<State, ActionData>) => void | Promise<void>,
+    onChunk?: (chunk: ActionChunk<State>) => void | Promise<void>
+  ): Promise<IterationResult<Result, ActionData, State>> {
+    const { signal } = options;
+    const startTime = Date.now() - elapsedBefore;
+    let loop: LoopState<State, ActionData> | undefined;
+    let terminationReason: TerminationReason = 'max_iterations';
+
+    // Phases are aborted on external cancellation or when the deadline passes
+    const timeout = this.config.timeout;
+    const scope = new RunScope({
+      signal,
+      timeout,
+      startTime,
+      label: 'Iteration loop',
+      iteration: () => loop?.iteration,
+    });
+    const runSignal = scope.signal;
+
+    try {
+      loop = await setup(runSignal);
+      const { history } = loop;
 
       // 2. Loop
-      for (let i = 0; i < this.config.maxIterations; i++) {
-        const iterationStart = Date.now();
-
-        // Check timeout
-        if (this.config.timeout && Date.now() - startTime > this.config.timeout) {
-          this.log('Timeout reached');
-          terminationReason = 'timeout';
-          break;
+      try {
+        // A continued loop first applies the transition its last iteration skipped
+        if (loop.pendingTransition && loop.iteration < this.config.maxIterations) {
+          await this.runPendingTransition(loop, startTime, runSignal);
         }
 
-        const context: IterationContext = {
-          iteration: i,
-          maxIterations: this.config.maxIterations,
-          elapsedTime: Date.now() - startTime,
-          previousEvaluation: i > 0 ? finalEvaluation : undefined,
-        };
+        while (loop.iteration < this.config.maxIterations) {
+          const i = loop.iteration;
+          const iterationStart = Date.now();
 
-        this.emit({ type: 'iteration_start', iteration: i });
-        this.log(`Iteration ${i + 1}/${this.config.maxIterations} started`);
-
-        // 2a. Act (Sprint Execution)
-        const actionResult = await this.options.act(state, context);
-        this.emit({ type: 'action_complete', iteration: i, result: actionResult });
-        this.log(`Action complete`, { dataSize: JSON.stringify(actionResult.data).length });
-
-        // 2b. Evaluate (Sprint Review)
-        const evaluation = await this.options.evaluate(state, actionResult, context);
-        finalEvaluation = evaluation;
-        this.emit({ type: 'evaluation_complete', iteration: i, evaluation });
-        this.log(`Evaluation complete`, { score: evaluation.score, shouldContinue: evaluation.shouldContinue });
-
-        // Record history
-        const iterationHistory: IterationHistory<ActionData> = {
-          iteration: i,
-          actionResult,
-          evaluation,
-          timestamp: Date.now(),
-          duration: Date.now() - iterationStart,
-        };
-        history.push(iterationHistory);
-        this.emit({ type: 'iteration_complete', iteration: i, history: iterationHistory });
-
-        // 2c. Transition (Retrospective -> next Sprint Planning)
-        // Run transition if not the last iteration OR if alwaysRunTransition is true
-        const isLastIteration = i === this.config.maxIterations - 1;
-        const shouldTerminate = this.checkTermination(state, evaluation, context, i);
-        const shouldRunTransition = (!isLastIteration || this.config.alwaysRunTransition) && !shouldTerminate.terminate;
+          // Check timeout and cancellation
+          if (scope.timedOut || (timeout && Date.now() - startTime > timeout)) {
+            this.log('Timeout reached');
+            terminationReason = 'timeout';
+            break;
+          }
+          if (runSignal.aborted) {
+            this.log('Run cancelled');
+            terminationReason = 'cancelled';
+            break;
+          }
+
+          // Check whether the budget can cover another iteration
+          const remainingBudget = this.getRemainingBudget(loop.totalCost);
+          if (
+            remainingBudget !== undefined &&
+            (remainingBudget <= 0 ||
+              (this.config.maxCostPerIteration !== undefined &&
+                remainingBudget < this.config.maxCostPerIteration))
+          ) {
+            this.log('Budget exhausted', { totalCost: loop.totalCost });
+            terminationReason = 'budget_exhausted';
+            break;
+          }
+
+          const context: IterationContext = {
+            iteration: i,
+            maxIterations: this.config.maxIterations,
+            elapsedTime: Date.now() - startTime,
+            previousEvaluation: loop.lastEvaluation,
+            remainingBudget,
+            signal: runSignal,
+          };
+
+          this.emit({ type: 'iteration_start', iteration: i });
+          this.log(`Iteration ${i + 1}/${this.config.maxIterations} started`);
+
+          const currentState = loop.state;
+          const retries: PhaseRetry[] = [];
+
+          // 2a-2b. Act and evaluate each candidate, keeping the highest-scoring one.
+          // A skipped candidate is dropped; any other failure aborts its siblings.
+          const candidateController = new AbortController();
+          const abortCandidates = () => candidateController.abort(runSignal.reason);
+          runSignal.addEventListener('abort', abortCandidates, { once: true });
+          let outcomes: (IterationCandidate<ActionData> | SkippedCandidate<ActionData>)[];
+          try {
+            outcomes = await Promise.all(
+              Array.from({ length: this.config.candidates }, (_, candidate) =>
+                this.runCandidate(
+                  candidate,
+                  currentState,
+                  context,
+                  startTime,
+                  candidateController.signal,
+                  retries,
+                  onChunk
+                ).catch((error: unknown): SkippedCandidate<ActionData> => {
+                  if (error instanceof IterationSkip) {
+                    const skip: IterationSkip<ActionData> = error;
+                    return {
+                      candidate,
+                      ...(skip.actionResult && { actionResult: skip.actionResult }),
+                      error: toFailure(skip.error, i),
+                    };
+                  }
+                  candidateController.abort(error);
+                  throw error;
+                })
+              )
+            );
+          } finally {
+            runSignal.removeEventListener('abort', abortCandidates);
+          }
+          const candidates = outcomes.filter(isCandidate);
+          const skippedCandidates = outcomes.filter(
+            (outcome): outcome is SkippedCandidate<ActionData> => !isCandidate(outcome)
+          );
+          const iterationCost = outcomes.reduce(
+            (sum, outcome) => sum + (outcome.actionResult?.metadata?.cost ?? 0),
+            0
+          );
+          loop.totalCost += iterationCost;
+
+          if (candidates.length === 0) {
+            // Every candidate was skipped: record the failure and act on the same state again
+            const [{ actionResult, error }, ...others] = skippedCandidates;
+            const iterationHistory: SkippedIteration<ActionData> = {
+              skipped: true,
+              iteration: i,
+              ...(actionResult && { actionResult }),
+              timestamp: Date.now(),
+              duration: Date.now() - iterationStart,
+              ...(retries.length > 0 && { retries: [...retries] }),
+              ...(others.length > 0 && { skippedCandidates: others }),
+              error,
+            };
+            history.push(iterationHistory);
+            loop.pendingTransition = false;
+            loop.iteration++;
+            this.emit({ type: 'iteration_complete', iteration: i, history: iterationHistory });
+            await this.saveCheckpoint(loop, options, i, startTime);
+            await onIteration?.({
+              iteration: i,
+              actionResult,
+              state: loop.state,
+              history: iterationHistory,
+              context,
+            });
+            continue;
+          }
+
+          const selected = candidates.reduce((best, candidate) =>
+            candidate.evaluation.score > best.evaluation.score ? candidate : best
+          );
+          const { actionResult, evaluation } = selected;
+          loop.lastEvaluation = evaluation;
+
+          const rollbackPoint = loop.rollbackPoint;
+          const regressed =
+            this.config.rollbackOnRegression &&
+            rollbackPoint !== undefined &&
+            evaluation.score < rollbackPoint.score &&
+            loop.rollbacks < this.config.maxRollbacks;
+
+          // Record history
+          const iterationHistory: CompletedIteration<ActionData> = {
+            iteration: i,
+            actionResult,
+            evaluation,
+            timestamp: Date.now(),
+            duration: Date.now() - iterationStart,
+            ...(retries.length > 0 && { retries: [...retries] }),
+            ...(regressed && { rolledBack: true }),
+            ...(candidates.length > 1 && {
+              candidates: candidates.filter((candidate) => candidate !== selected),
+            }),
+            ...(skippedCandidates.length > 0 && { skippedCandidates }),
+          };
+          history.push(iterationHistory);
+          loop.pendingTransition = !regressed;
+          if (!loop.best || evaluation.score > loop.best.evaluation.score) {
+            loop.best = { iteration: i, state: this.snapshot(currentState), actionResult, evaluation };
+          }
+
+          // 2c. Transition (Retrospective -> next Sprint Planning)
+          // Run transition if not the last iteration OR if alwaysRunTransition is true
+          const isLastIteration = i === this.config.maxIterations - 1;
+          const shouldTerminate = this.checkTermination(
+            currentState,
+            evaluation,
+            context,
+            i,
+            history,
+            loop.totalCost,
+            iterationCost
+          );
+          const shouldRunTransition = (!isLastIteration || this.config.alwaysRunTransition) && !shouldTerminate.terminate;
         
-        if (shouldRunTransition || (this.config.alwaysRunTransition && shouldTerminate.terminate)) {
-          state = await this.options.transition(state, actionResult, evaluation, context);
-          this.emit({ type: 'transition_complete', iteration: i, state });
-          this.log(`Transition complete, preparing next iteration`);
-        }
+          if (regressed && rollbackPoint) {
+            // Discard the state that led to the regression instead of building on it.
+            // The restored state is acted on again before it can regress further.
+            loop.state = rollbackPoint.state;
+            loop.rollbackPoint = undefined;
+            loop.rollbacks++;
+            this.emit({
+              type: 'rollback',
+              iteration: i,
+              score: evaluation.score,
+              previousScore: rollbackPoint.score,
+              state: loop.state,
+            });
+            this.log('Score regressed, rolled back state', {
+              score: evaluation.score,
+              previousScore: rollbackPoint.score,
+            });
+          } else if (shouldRunTransition || (this.config.alwaysRunTransition && shouldTerminate.terminate)) {
+            const previousState = this.snapshot(currentState);
+            try {
+              loop.state = await this.recoverPhase(
+                () =>
+                  this.runPhase<State>('transition', i, startTime, runSignal, retries, (phaseSignal) =>
+                    this.options.transition(currentState, actionResult, evaluation, {
+                      ...context,
+                      signal: phaseSignal,
+                    })
+                  ),
+                currentState,
+                context,
+                runSignal,
+                retries,
+                isNoReplacement
+              );
+              loop.rollbackPoint = { state: previousState, score: evaluation.score };
+              this.emit({ type: 'transition_complete', iteration: i, state: loop.state });
+              this.log(`Transition complete, preparing next iteration`);
+            } catch (error) {
+              if (!(error instanceof IterationSkip)) throw error;
+              // Keep the current state for the next iteration
+              iterationHistory.error = toFailure(error.error, i);
+            }
+            loop.pendingTransition = false;
+            if (retries.length > 0) {
+              iterationHistory.retries = retries;
+            }
+          }
+          // Emitted once the transition settled, so the entry includes its retries and error
+          this.emit({ type: 'iteration_complete', iteration: i, history: iterationHistory });
+
+          loop.iteration++;
+
+          await this.saveCheckpoint(loop, options, i, startTime);
+
+          await onIteration?.({
+            iteration: i,
+            actionResult,
+            evaluation,
+            state: loop.state,
+            history: iterationHistory,
+            context,
+          });
 
-        // Check termination conditions
-        if (shouldTerminate.terminate) {
-          terminationReason = shouldTerminate.reason;
-          this.log(`Terminating: ${terminationReason}`, { score: evaluation.score });
-          this.emit({ type: 'converged', iteration: i, score: evaluation.score });
-          break;
+          // Check termination conditions
+          if (shouldTerminate.terminate) {
+            terminationReason = shouldTerminate.reason;
+            this.log(`Terminating: ${terminationReason}`, { score: evaluation.score });
+            this.emit({ type: 'converged', iteration: i, score: evaluation.score });
+            break;
+          }
+        }
+      } catch (error) {
+        // A phase rejected because the run was aborted or a circuit breaker
+        // is open: keep the partial history
+        terminationReason = scope.stopReason(error);
+        if (terminationReason === 'circuit_open') {
+          this.log('Circuit open', { retryAfter: (error as CircuitOpenError).retryAfter });
+        } else {
+          this.log(terminationReason === 'timeout' ? 'Timeout reached' : 'Run cancelled');
         }
       }
 
       // 3. Finalize (Release)
-      const result = await this.options.finalize(state, history);
-      const totalCost = history.reduce(
-        (sum, h) => sum + (h.actionResult.metadata?.cost ?? 0),
-        0
-      );
+      const { best } = loop;
+      const finalEvaluation = loop.lastEvaluation ?? EMPTY_EVALUATION;
+      const finalState = this.config.finalizeFrom === 'best' && best ? best.state : loop.state;
+      let result: Result;
+      try {
+        result = await this.options.finalize(finalState, history);
+      } catch (error) {
+        throw new PhaseError('finalize', { iteration: history.length, elapsed: Date.now() - startTime, cause: error });
+      }
 
-      const iterationResult: IterationResult<Result, ActionData> = {
+      const iterationResult: IterationResult<Result, ActionData, State> = {
         result,
         iterations: history.length,
         finalScore: finalEvaluation.score,
+        bestScore: best?.evaluation.score ?? 0,
+        bestIteration: best,
         converged: finalEvaluation.score >= this.config.targetScore,
         terminationReason,
-        totalCost,
+        totalCost: loop.totalCost,
         totalLatency: Date.now() - startTime,
         history,
+        continuation: {
+          state: loop.state,
+          iteration: loop.iteration,
+          pendingTransition: loop.pendingTransition ?? false,
+          rollbackPoint: loop.rollbackPoint,
+          rollbacks: loop.rollbacks,
+        },
       };
 
       this.emit({ type: 'complete', result: iterationResult });
@@ -214,7 +1037,9 @@ export class IterationProcessor<Input, State, ActionData, Result> {
       return iterationResult;
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
-      this.emit({ type: 'error', error: err, iteration: history.length, state });
+      const history = loop?.history ?? [];
+      const finalEvaluation = loop?.lastEvaluation ?? EMPTY_EVALUATION;
+      this.emit({ type: 'error', error: err, iteration: history.length, state: loop?.state });
       this.log('Error occurred', { error: err.message });
 
       // Try error handler if provided
@@ -224,22 +1049,146 @@ export class IterationProcessor<Input, State, ActionData, Result> {
           maxIterations: this.config.maxIterations,
           elapsedTime: Date.now() - startTime,
           previousEvaluation: finalEvaluation,
+          remainingBudget: this.getRemainingBudget(loop?.totalCost ?? 0),
+          signal: runSignal,
         };
-        const fallbackResult = await this.options.onError(err, state, context);
+        const fallbackResult = await this.options.onError(err, loop?.state, context);
         return {
           result: fallbackResult,
           iterations: history.length,
           finalScore: finalEvaluation.score,
+          bestScore: loop?.best?.evaluation.score ?? 0,
+          bestIteration: loop?.best,
           converged: false,
-          terminationReason: 'manual_stop',
-          totalCost: history.reduce((sum, h) => sum + (h.actionResult.metadata?.cost ?? 0), 0),
+          terminationReason: scope.fallbackReason(loop !== undefined),
+          totalCost: loop?.totalCost ?? 0,
           totalLatency: Date.now() - startTime,
           history,
         };
       }
 
       throw error;
+    } finally {
+      scope.close();
+    }
+  }
+
+  /**
+   * Run the transition skipped by the last recorded iteration
+   */
+  private async runPendingTransition(
+    loop: LoopState<State, ActionData>,
+    startTime: number,
+    runSignal: AbortSignal
+  ): Promise<void> {
+    const { history } = loop;
+    const last = history[history.length - 1];
+    // A skipped iteration has nothing to transition from
+    if (last.skipped) {
+      loop.pendingTransition = false;
+      return;
     }
+    const currentState = loop.state;
+    const context: IterationContext = {
+      iteration: last.iteration,
+      maxIterations: this.config.maxIterations,
+      elapsedTime: Date.now() - startTime,
+      previousEvaluation: getLastEvaluation(history.slice(0, -1)),
+      remainingBudget: this.getRemainingBudget(loop.totalCost),
+      signal: runSignal,
+    };
+
+    loop.rollbackPoint = { state: this.snapshot(currentState), score: last.evaluation.score };
+    loop.state = await this.runPhase<State>('transition', last.iteration, startTime, runSignal, [], (phaseSignal) =>
+      this.options.transition(currentState, last.actionResult, last.evaluation, {
+        ...context,
+        signal: phaseSignal,
+      })
+    );
+    loop.pendingTransition = false;
+    this.emit({ type: 'transition_complete', iteration: last.iteration, state: loop.state });
+    this.log('Applied pending transition');
+  }
+
+  /**
+   * Persist progress so the loop can be resumed after a restart
+   */
+  private async saveCheckpoint(
+    loop: LoopState<State, ActionData>,
+    options: RunOptions,
+    iteration: number,
+    startTime: number
+  ): Promise<void> {
+    if (!options.checkpoint) return;
+
+    const checkpoint = this.createCheckpoint(loop, Date.now() - startTime);
+    await options.checkpoint.store.save(options.checkpoint.id, checkpoint);
+    this.emit({ type: 'checkpoint', iteration, checkpoint });
+  }
+
+  /**
+   * Copy of `state` made through `serializer`, or `state` itself without one
+   *
+   * Keeps rollback points and the best iteration intact when `transition`
+   * mutates its state in place.
+   */
+  private snapshot(state: State): State {
+    const { serializer } = this.options;
+    return serializer ? serializer.deserialize(serializer.serialize(state)) : state;
+  }
+
+  /**
+   * Capture the loop's progress as a JSON-safe checkpoint
+   */
+  private createCheckpoint(
+    loop: LoopState<State, ActionData>,
+    elapsedTime: number
+  ): IterationCheckpoint<ActionData> {
+    const serialize = (state: State): unknown =>
+      this.options.serializer ? this.options.serializer.serialize(state) : state;
+    const { logger: _logger, rateLimiter: _rateLimiter, ...config } = this.config;
+
+    return {
+      version: 1,
+      config,
+      state: serialize(loop.state),
+      history: loop.history,
+      iteration: loop.iteration,
+      lastEvaluation: loop.lastEvaluation,
+      totalCost: loop.totalCost,
+      elapsedTime,
+      best: loop.best && { ...loop.best, state: serialize(loop.best.state) },
+      rollbackPoint: loop.rollbackPoint && {
+        ...loop.rollbackPoint,
+        state: serialize(loop.rollbackPoint.state),
+      },
+      rollbacks: loop.rollbacks,
+      pendingTransition: loop.pendingTransition,
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Rebuild the loop's progress from a checkpoint
+   */
+  private restoreCheckpoint(checkpoint: IterationCheckpoint<ActionData>): LoopState<State, ActionData> {
+    const deserialize = (data: unknown): State =>
+      this.options.serializer ? this.options.serializer.deserialize(data) : (data as State);
+
+    return {
+      state: deserialize(checkpoint.state),
+      history: [...checkpoint.history],
+      iteration: checkpoint.iteration,
+      lastEvaluation: checkpoint.lastEvaluation,
+      totalCost: checkpoint.totalCost,
+      best: checkpoint.best && { ...checkpoint.best, state: deserialize(checkpoint.best.state) },
+      rollbackPoint: checkpoint.rollbackPoint && {
+        ...checkpoint.rollbackPoint,
+        state: deserialize(checkpoint.rollbackPoint.state),
+      },
+      rollbacks: checkpoint.rollbacks,
+      pendingTransition: checkpoint.pendingTransition,
+    };
   }
 
   /**
@@ -249,8 +1198,11 @@ export class IterationProcessor<Input, State, ActionData, Result> {
     state: State,
     evaluation: Evaluation,
     context: IterationContext,
-    iteration: number
-  ): { terminate: boolean; reason: IterationResult<Result, ActionData>['terminationReason'] } {
+    iteration: number,
+    history: IterationHistory<ActionData>[],
+    totalCost: number,
+    iterationCost: number
+  ): { terminate: boolean; reason: TerminationReason } {
     // Custom termination check
     if (this.options.shouldTerminate?.(state, evaluation, context)) {
       return { terminate: true, reason: 'manual_stop' };
@@ -267,16 +1219,44 @@ export class IterationProcessor<Input, State, ActionData, Result> {
     }
 
     // Target reached after minimum iterations (or skipMinIterations is enabled)
+    const minIterationsMet = iteration >= this.config.minIterations - 1;
     if (evaluation.score >= this.config.targetScore) {
-      const minIterationsMet = iteration >= this.config.minIterations - 1;
       if (minIterationsMet || this.config.skipMinIterations) {
         return { terminate: true, reason: 'converged' };
       }
     }
 
+    // Score has stalled over the plateau window
+    const plateau = this.config.plateau;
+    if (
+      plateau &&
+      minIterationsMet &&
+      history.length > plateau.window &&
+      !isImproving(history, plateau.window + 1, plateau.minDelta ?? 1)
+    ) {
+      return { terminate: true, reason: 'plateau' };
+    }
+
+    // Cost budget spent, or this iteration went over its cap
+    const remainingBudget = this.getRemainingBudget(totalCost);
+    if (
+      (remainingBudget !== undefined && remainingBudget <= 0) ||
+      (this.config.maxCostPerIteration !== undefined &&
+        iterationCost > this.config.maxCostPerIteration)
+    ) {
+      return { terminate: true, reason: 'budget_exhausted' };
+    }
+
     return { terminate: false, reason: 'max_iterations' };
   }
 
+  /**
+   * Budget left under `maxCost`, or undefined when no budget is set
+   */
+  private getRemainingBudget(totalCost: number): number | undefined {
+    return this.config.maxCost !== undefined ? this.config.maxCost - totalCost : undefined;
+  }
+
   /**
    * Get current configuration
    */
@@ -300,10 +1280,12 @@ export class IterationProcessor<Input, State, ActionData, Result> {
     const newMinIterations = config.minIterations ?? this.config.minIterations;
     
     if (newMinIterations > newMaxIterations) {
-      throw new Error(
+      throw new ConfigurationError(
         `Invalid configuration: minIterations (${newMinIterations}) cannot be greater than maxIterations (${newMaxIterations})`
       );
     }
+    validateCandidates(config.candidates);
+    validatePlateau(config.plateau);
     
     Object.assign(this.config, config);
     return this;
@@ -322,6 +1304,15 @@ export class IterationProcessor<Input, State, ActionData, Result> {
       verbose: false,
       alwaysRunTransition: false,
       skipMinIterations: false,
+      rollbackOnRegression: false,
+      maxRollbacks: 3,
+      candidates: 1,
+      finalizeFrom: 'last',
+      maxCost: undefined,
+      maxCostPerIteration: undefined,
+      plateau: undefined,
+      phases: undefined,
+      rateLimiter: undefined,
       logger: undefined,
     };
     return this;
@@ -337,3 +1328,71 @@ export function createIterator<Input, State, ActionData, Result>(
 ): IterationProcessor<Input, State, ActionData, Result> {
   return new IterationProcessor(options, config);
 }
+
+/**
+ * Reject candidate counts that are not positive integers
+ */
+function validateCandidates(candidates: number | undefined): void {
+  if (candidates !== undefined && (!Number.isInteger(candidates) || candidates < 1)) {
+    throw new ConfigurationError(`Invalid configuration: candidates (${candidates}) must be a positive integer`);
+  }
+}
+
+/**
+ * Reject a plateau window that is not a positive integer or a negative `minDelta`
+ */
+function validatePlateau(plateau: IterationConfig['plateau']): void {
+  if (!plateau) return;
+  if (!Number.isInteger(plateau.window) || plateau.window < 1) {
+    throw new ConfigurationError(`Invalid configuration: plateau.window (${plateau.window}) must be a positive integer`);
+  }
+  if (plateau.minDelta !== undefined && !(plateau.minDelta >= 0)) {
+    throw new ConfigurationError(`Invalid configuration: plateau.minDelta (${plateau.minDelta}) must not be negative`);
+  }
+}
+
+/**
+ * Whether an `onIterationError` replacement can stand in for a failed `act`
+ */
+function isActionResult<ActionData>(
+  replacement: IterationErrorDecision<ActionData>
+): replacement is ActionResult<ActionData> {
+  return typeof replacement === 'object' && 'data' in replacement && !('score' in replacement);
+}
+
+/**
+ * Whether an `onIterationError` replacement can stand in for a failed `evaluate`
+ */
+function isEvaluation<ActionData>(replacement: IterationErrorDecision<ActionData>): replacement is Evaluation {
+  return typeof replacement === 'object' && typeof (replacement as Evaluation).score === 'number';
+}
+
+/**
+ * A failed `transition` cannot be replaced
+ */
+function isNoReplacement<ActionData>(
+  _replacement: IterationErrorDecision<ActionData>
+): _replacement is IterationErrorDecision<ActionData> & never {
+  return false;
+}
+
+/**
+ * Whether a candidate completed rather than being skipped
+ */
+function isCandidate<ActionData>(
+  outcome: IterationCandidate<ActionData> | SkippedCandidate<ActionData>
+): outcome is IterationCandidate<ActionData> {
+  return 'evaluation' in outcome;
+}
+
+/**
+ * Record a skipped phase failure in a JSON-safe form for the history
+ */
+function toFailure(error: PhaseError, iteration: number): IterationFailure {
+  return {
+    phase: error.phase as IterationPhase,
+    message: error.message,
+    iteration,
+    ...(error.elapsed !== undefined && { elapsed: error.elapsed }),
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * IteratoP - Error Tests
+ */
+
+import {
+  IteratoPError,
+  PhaseError,
+  ConfigurationError,
+  TimeoutError,
+  CancelledError,
+  CircuitOpenError,
+  RetryExhaustedError,
+} from './errors';
+
+describe('error types', () => {
+  it('should share the IteratoPError base class', () => {
+    const errors = [
+      new PhaseError('act'),
+      new ConfigurationError('bad'),
+      new TimeoutError('slow', 10, { elapsed: 10 }),
+      new CancelledError(),
+      new CircuitOpenError(100),
+      new RetryExhaustedError([new Error('down')]),
+    ];
+
+    for (const error of errors) {
+      expect(error).toBeInstanceOf(IteratoPError);
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe(error.constructor.name);
+    }
+  });
+
+  it('should carry iteration, elapsed time and cause', () => {
+    const cause = new Error('search API down');
+
+    const error = new PhaseError('act', { iteration: 3, elapsed: 1200, cause });
+
+    expect(error.message).toBe('act phase failed in iteration 3: search API down');
+    expect(error).toMatchObject({ phase: 'act', iteration: 3, elapsed: 1200, cause });
+  });
+
+  it('should describe non-Error causes', () => {
+    expect(new PhaseError('finalize', { cause: 'disk full' }).message).toBe('finalize phase failed: disk full');
+  });
+
+  it('should default the cancellation message', () => {
+    expect(new CancelledError().message).toBe('Run cancelled');
+    expect(new CancelledError('Retry cancelled', { cause: 'shutdown' })).toMatchObject({
+      message: 'Retry cancelled',
+      cause: 'shutdown',
+    });
+  });
+});
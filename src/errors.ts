@@ -0,0 +1,143 @@
+/**
+ * IteratoP - Error Types
+ */
+
+import type { LoopPhase } from './types.js';
+
+/**
+ * Where and when an error happened
+ */
+export interface ErrorContext {
+  /** Iteration in progress (0-based) */
+  iteration?: number;
+  /** Milliseconds since the run (or operation) started */
+  elapsed?: number;
+  /** Underlying error */
+  cause?: unknown;
+}
+
+/**
+ * Base class of the errors thrown by IteratoP
+ */
+export class IteratoPError extends Error {
+  readonly iteration?: number;
+  readonly elapsed?: number;
+  readonly cause?: unknown;
+
+  constructor(message: string, context: ErrorContext = {}) {
+    super(message);
+    this.name = 'IteratoPError';
+    this.iteration = context.iteration;
+    this.elapsed = context.elapsed;
+    this.cause = context.cause;
+  }
+}
+
+/**
+ * A loop phase failed (after its retries, if any)
+ *
+ * `cause` is the error the phase threw. This is the error `onError` and
+ * the `'error'` event receive when a user callback fails.
+ */
+export class PhaseError extends IteratoPError {
+  /** Phase that failed */
+  readonly phase: LoopPhase;
+
+  constructor(phase: LoopPhase, context: ErrorContext = {}) {
+    const { cause, iteration } = context;
+    const where = iteration === undefined ? '' : ` in iteration ${iteration}`;
+    super(`${phase} phase failed${where}: ${cause instanceof Error ? cause.message : String(cause)}`, context);
+    this.name = 'PhaseError';
+    this.phase = phase;
+  }
+}
+
+/**
+ * Invalid configuration or options
+ */
+export class ConfigurationError extends IteratoPError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigurationError';
+  }
+}
+
+/**
+ * Thrown when an operation does not settle within its time limit
+ */
+export class TimeoutError extends IteratoPError {
+  /** Time limit in milliseconds */
+  readonly timeout: number;
+  /** Milliseconds elapsed when the operation was abandoned */
+  readonly elapsed: number;
+  /** Phase that timed out, for phase timeouts */
+  readonly phase?: LoopPhase;
+
+  constructor(
+    message: string,
+    timeout: number,
+    context: ErrorContext & { elapsed: number; phase?: LoopPhase }
+  ) {
+    super(message, context);
+    this.name = 'TimeoutError';
+    this.timeout = timeout;
+    this.elapsed = context.elapsed;
+    this.phase = context.phase;
+  }
+}
+
+/**
+ * Work was abandoned because a run or wait was cancelled
+ *
+ * A processor aborts its phases' `context.signal` with this error when
+ * the run's signal aborts; the caller's abort reason is its `cause`.
+ */
+export class CancelledError extends IteratoPError {
+  constructor(message = 'Run cancelled', context: ErrorContext = {}) {
+    super(message, context);
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * Thrown by a `CircuitBreaker` that rejects a call without running it
+ *
+ * A processor whose phase fails with this error stops with
+ * `terminationReason: 'circuit_open'` and finalizes the history so far.
+ */
+export class CircuitOpenError extends IteratoPError {
+  /** Milliseconds until the breaker lets trial calls through (0 when already half-open) */
+  readonly retryAfter: number;
+
+  constructor(retryAfter: number) {
+    super(
+      retryAfter > 0
+        ? `Circuit is open, retry after ${retryAfter}ms`
+        : 'Circuit is half-open and already running its trial calls'
+    );
+    this.name = 'CircuitOpenError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Thrown by `withRetry` once every attempt has failed
+ *
+ * `cause` is the last attempt's error.
+ */
+export class RetryExhaustedError extends IteratoPError {
+  /** Number of attempts made */
+  readonly attempts: number;
+  /** Error of every attempt, in order */
+  readonly errors: unknown[];
+
+  constructor(errors: unknown[]) {
+    const last = errors[errors.length - 1];
+    super(`Failed after ${errors.length} attempts: ${last instanceof Error ? last.message : String(last)}`, {
+      cause: last,
+    });
+    this.name = 'RetryExhaustedError';
+    this.attempts = errors.length;
+    this.errors = errors;
+  }
+}
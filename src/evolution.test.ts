@@ -0,0 +1,171 @@
+/**
+ * IteratoP - Evolutionary Search Tests
+ */
+
+import { EvolutionProcessor, createEvolution } from './evolution';
+import { createEvaluation, createActionResult } from './utils';
+import { PhaseError } from './errors';
+import type { EvolutionOptions } from './types';
+
+// Members are numbers and their fitness is the number itself
+function createNumberOptions(delay = 0) {
+  const seeds = [10, 20, 30, 40];
+  let seeded = 0;
+  const calls = { act: 0, crossover: [] as [number, number][] };
+
+  const options: EvolutionOptions<void, number, number, number> = {
+    initialize: async () => seeds[seeded++ % seeds.length],
+    act: async (state) => {
+      calls.act++;
+      if (delay) await new Promise((resolve) => setTimeout(resolve, delay));
+      return createActionResult(state, { cost: 0.01 });
+    },
+    evaluate: async (_, actionResult) => createEvaluation(actionResult.data, { shouldContinue: true }),
+    crossover: async (a, b) => {
+      calls.crossover.push([a, b]);
+      return (a + b) / 2;
+    },
+    // Mutation
+    transition: async (state) => state + 5,
+    finalize: async (state) => state,
+  };
+  return { options, calls };
+}
+
+describe('EvolutionProcessor', () => {
+  const config = {
+    populationSize: 4,
+    elitism: 1,
+    tournamentSize: 2,
+    maxIterations: 3,
+    targetScore: 100,
+    earlyStopScore: 100,
+    random: () => 0,
+  };
+
+  it('should evolve the population toward higher fitness', async () => {
+    const { options } = createNumberOptions();
+    const evolution = createEvolution(options, config);
+
+    const result = await evolution.run();
+
+    expect(result.history.map((h) => h.evaluation.score)).toEqual([40, 45, 50]);
+    expect(result.result).toBe(50);
+    expect(result.bestScore).toBe(50);
+    expect(result.bestIteration?.iteration).toBe(2);
+    expect(result.terminationReason).toBe('max_iterations');
+  });
+
+  it('should carry elites over without scoring them again', async () => {
+    const { options, calls } = createNumberOptions();
+    const evolution = createEvolution(options, config);
+
+    const result = await evolution.run();
+
+    // 4 seeds, then 3 children per later generation
+    expect(calls.act).toBe(10);
+    expect(result.totalCost).toBeCloseTo(0.1);
+    expect(result.population.map((m) => m.state)).toEqual([50, 50, 50, 45]);
+    expect(result.population[3].generation).toBe(1);
+  });
+
+  it('should select parents by tournament', async () => {
+    const { options, calls } = createNumberOptions();
+    // Every draw lands on the least fit member, so it wins each tournament
+    const evolution = createEvolution(options, { ...config, maxIterations: 2, random: () => 0.99 });
+
+    await evolution.run();
+
+    expect(calls.crossover).toEqual([
+      [10, 10],
+      [10, 10],
+      [10, 10],
+    ]);
+  });
+
+  it('should keep no elites when elitism is 0', async () => {
+    const { options, calls } = createNumberOptions();
+    const evolution = createEvolution(options, { ...config, elitism: 0, maxIterations: 2 });
+
+    const result = await evolution.run();
+
+    expect(calls.act).toBe(8);
+    expect(result.population.map((m) => m.state)).toEqual([45, 45, 45, 45]);
+  });
+
+  it('should stop once the fittest member reaches the target score', async () => {
+    const { options } = createNumberOptions();
+    const evolution = createEvolution(options, { ...config, maxIterations: 10, targetScore: 45 });
+
+    const result = await evolution.run();
+
+    expect(result.converged).toBe(true);
+    expect(result.terminationReason).toBe('converged');
+    expect(result.iterations).toBe(2);
+  });
+
+  it('should stop when the fittest member should not continue', async () => {
+    const { options } = createNumberOptions();
+    options.evaluate = async (_, actionResult) =>
+      createEvaluation(actionResult.data, { shouldContinue: actionResult.data < 45 });
+    const evolution = createEvolution(options, { ...config, maxIterations: 10 });
+
+    const result = await evolution.run();
+
+    expect(result.terminationReason).toBe('converged');
+    expect(result.iterations).toBe(2);
+  });
+
+  it('should cancel when the signal aborts', async () => {
+    const { options } = createNumberOptions(20);
+    const evolution = createEvolution(options, { ...config, maxIterations: 10 });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 30);
+
+    const result = await evolution.run(undefined, { signal: controller.signal });
+
+    expect(result.terminationReason).toBe('cancelled');
+    expect(result.iterations).toBe(1);
+    expect(result.result).toBe(40);
+  });
+
+  it('should use onError when crossover fails', async () => {
+    const { options } = createNumberOptions();
+    options.crossover = async () => {
+      throw new Error('incompatible parents');
+    };
+    let received: Error | undefined;
+    options.onError = async (error, state) => {
+      received = error;
+      return -(state ?? 0);
+    };
+    const evolution = createEvolution(options, config);
+
+    const result = await evolution.run();
+
+    expect(result.result).toBe(-40);
+    expect(received).toBeInstanceOf(PhaseError);
+    expect(received).toMatchObject({ phase: 'crossover', iteration: 0 });
+    expect(result.terminationReason).toBe('manual_stop');
+    expect(result.bestIteration).toMatchObject({ iteration: 0, state: 40 });
+  });
+
+  it('should validate the configuration', () => {
+    const { options } = createNumberOptions();
+
+    expect(() => new EvolutionProcessor(options, { populationSize: 1 })).toThrow(
+      'populationSize (1) must be an integer of at least 2'
+    );
+    expect(() => new EvolutionProcessor(options, { populationSize: 4, elitism: 4 })).toThrow(
+      'elitism (4) must be an integer from 0 to populationSize - 1 (3)'
+    );
+    expect(() => new EvolutionProcessor(options, { populationSize: 4, tournamentSize: 5 })).toThrow(
+      'tournamentSize (5) must be an integer from 1 to populationSize (4)'
+    );
+    expect(createEvolution(options).getConfig()).toMatchObject({
+      populationSize: 8,
+      elitism: 1,
+      tournamentSize: 3,
+    });
+  });
+});
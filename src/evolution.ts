@@ -0,0 +1,271 @@
+/**
+ * IteratoP - Evolutionary Search
+ *
+ * Population-based variant of the iteration loop, for work such as
+ * prompt optimization. Each generation scores every member, keeps the
+ * elites and breeds the rest from tournament-selected parents.
+ *
+ * Flow:
+ * 1. Initialize (`initialize` once per member)
+ * 2. Loop (one generation per iteration):
+ *    a. Score: act on and evaluate every new member
+ *    b. Select: keep the top `elitism` members, pick parents by tournament
+ *    c. Breed: `crossover` two parents, then mutate the child with `transition`
+ * 3. Finalize the fittest member
+ */
+
+import type {
+  EvolutionConfig,
+  EvolutionOptions,
+  EvolutionMember,
+  EvolutionResult,
+  IterationContext,
+  CompletedIteration,
+  RunOptions,
+} from './types.js';
+import { raceSignal, resolveAction } from './utils.js';
+import { ConfigurationError } from './errors.js';
+import { SearchProcessor, resolveSearchConfig } from './search.js';
+import type { ResolvedSearchConfig, Search, SearchRun } from './search.js';
+
+type ResolvedEvolutionConfig = ResolvedSearchConfig &
+  Required<Pick<EvolutionConfig, 'populationSize' | 'elitism' | 'tournamentSize' | 'random'>>;
+
+type EvolutionExtra<State, ActionData> = Pick<EvolutionResult<unknown, ActionData, State>, 'population'>;
+
+/**
+ * Evolutionary search over the `initialize/act/evaluate/transition` contract
+ *
+ * @example
+ * ```typescript
+ * const evolution = createEvolution(
+ *   { ...options, crossover: async (a, b) => mergePrompts(a, b) },
+ *   { populationSize: 10, elitism: 2, tournamentSize: 3, maxIterations: 8 }
+ * );
+ * const result = await evolution.run(task);
+ * ```
+ */
+export class EvolutionProcessor<Input, State, ActionData, Result> extends SearchProcessor<
+  Input,
+  State,
+  ActionData,
+  Result,
+  EvolutionExtra<State, ActionData>,
+  ResolvedEvolutionConfig,
+  EvolutionOptions<Input, State, ActionData, Result>
+> {
+  constructor(options: EvolutionOptions<Input, State, ActionData, Result>, config: EvolutionConfig = {}) {
+    super(
+      options,
+      {
+        ...resolveSearchConfig(config, 10),
+        populationSize: config.populationSize ?? 8,
+        elitism: config.elitism ?? 1,
+        tournamentSize: config.tournamentSize ?? 3,
+        random: config.random ?? Math.random,
+      },
+      'evolution',
+      'Evolution'
+    );
+
+    const { populationSize, elitism, tournamentSize } = this.config;
+    if (!Number.isInteger(populationSize) || populationSize < 2) {
+      throw new ConfigurationError(`Invalid configuration: populationSize (${populationSize}) must be an integer of at least 2`);
+    }
+    if (!Number.isInteger(elitism) || elitism < 0 || elitism >= populationSize) {
+      throw new ConfigurationError(
+        `Invalid configuration: elitism (${elitism}) must be an integer from 0 to populationSize - 1 (${populationSize - 1})`
+      );
+    }
+    if (!Number.isInteger(tournamentSize) || tournamentSize < 1 || tournamentSize > populationSize) {
+      throw new ConfigurationError(
+        `Invalid configuration: tournamentSize (${tournamentSize}) must be an integer from 1 to populationSize (${populationSize})`
+      );
+    }
+  }
+
+  /**
+   * Run the evolutionary search
+   *
+   * @param input - Input passed to `initialize` for every member
+   * @param options - Per-run options such as an `AbortSignal`
+   */
+  run(input: Input, options: RunOptions = {}): Promise<EvolutionResult<Result, ActionData, State>> {
+    return this.execute(input, options);
+  }
+
+  /**
+   * Seed the population
+   */
+  protected async start(
+    input: Input,
+    run: SearchRun
+  ): Promise<Search<State, ActionData, EvolutionExtra<State, ActionData>>> {
+    this.log('Starting evolution', {
+      populationSize: this.config.populationSize,
+      elitism: this.config.elitism,
+      tournamentSize: this.config.tournamentSize,
+    });
+
+    const seeds = await Promise.all(
+      Array.from({ length: this.config.populationSize }, () => this.initializeState(input, run))
+    );
+    // Elites keep their score; new members are scored when their generation starts
+    let population: { state: State; member?: EvolutionMember<State, ActionData> }[] = seeds.map((state) => ({ state }));
+    let scored: EvolutionMember<State, ActionData>[] = [];
+    let best: EvolutionMember<State, ActionData> | undefined;
+    const history: CompletedIteration<ActionData>[] = [];
+
+    return {
+      step: async (generation, remainingBudget) => {
+        this.log(`Generation ${generation + 1}/${this.config.maxIterations} started`);
+        const generationStart = Date.now();
+        const context = this.createContext(
+          run,
+          generation,
+          history[history.length - 1]?.evaluation,
+          remainingBudget
+        );
+
+        // 2a. Score the new members (fittest first; earlier members win ties)
+        scored = await raceSignal(
+          Promise.all(population.map(({ state, member }) => member ?? this.score(state, generation, context, run))),
+          run.signal
+        );
+        for (const member of scored) {
+          if (member.generation === generation) {
+            run.totalCost += member.actionResult.metadata?.cost ?? 0;
+          }
+        }
+        scored.sort((a, b) => b.evaluation.score - a.evaluation.score);
+        run.iterations = generation + 1;
+
+        const fittest = scored[0];
+        if (!best || fittest.evaluation.score > best.evaluation.score) {
+          best = fittest;
+        }
+        const historyEntry: CompletedIteration<ActionData> = {
+          iteration: generation,
+          actionResult: fittest.actionResult,
+          evaluation: fittest.evaluation,
+          timestamp: Date.now(),
+          duration: Date.now() - generationStart,
+        };
+        history.push(historyEntry);
+        this.emit({ type: 'iteration_complete', iteration: generation, history: historyEntry });
+        this.log('Generation scored', {
+          bestScore: fittest.evaluation.score,
+          averageScore: scored.reduce((sum, m) => sum + m.evaluation.score, 0) / scored.length,
+        });
+
+        const shouldTerminate = this.checkTermination(fittest.state, fittest.evaluation, context, run.totalCost);
+        if (shouldTerminate.terminate) {
+          return { reason: shouldTerminate.reason, score: fittest.evaluation.score };
+        }
+        if (generation === this.config.maxIterations - 1) return undefined;
+
+        // 2b-2c. Keep the elites and breed the rest
+        const elites = scored.slice(0, this.config.elitism).map((member) => ({ state: member.state, member }));
+        const children = await raceSignal(
+          Promise.all(
+            Array.from({ length: this.config.populationSize - this.config.elitism }, () =>
+              this.breed(scored, generation, context, run)
+            )
+          ),
+          run.signal
+        );
+        population = [...elites, ...children.map((state) => ({ state }))];
+        return undefined;
+      },
+
+      // 3. Finalize the fittest member (the first seed when nothing was scored)
+      summarize: () => ({
+        state: best?.state ?? population[0].state,
+        history,
+        finalScore: history[history.length - 1]?.evaluation.score ?? 0,
+        bestScore: best?.evaluation.score ?? 0,
+        bestIteration: best && {
+          iteration: best.generation,
+          state: best.state,
+          actionResult: best.actionResult,
+          evaluation: best.evaluation,
+        },
+        score: best?.evaluation.score,
+        extra: { population: scored },
+      }),
+    };
+  }
+
+  /**
+   * Population of a run that failed to seed
+   */
+  protected emptyResult(): EvolutionExtra<State, ActionData> {
+    return { population: [] };
+  }
+
+  /**
+   * Act on a member's state and evaluate the result as its fitness
+   */
+  private async score(
+    state: State,
+    generation: number,
+    context: IterationContext,
+    run: SearchRun
+  ): Promise<EvolutionMember<State, ActionData>> {
+    const actionResult = await this.runPhase('act', generation, run, () =>
+      resolveAction(this.options.act(state, context), (chunk, index) =>
+        this.emit({ type: 'action_chunk', iteration: generation, index, chunk })
+      )
+    );
+    const evaluation = await this.runPhase('evaluate', generation, run, () =>
+      this.options.evaluate(state, actionResult, context)
+    );
+    return { generation, state, actionResult, evaluation };
+  }
+
+  /**
+   * Produce a child from two tournament-selected parents
+   *
+   * The child is mutated with `transition`, using the first parent's
+   * action result and evaluation.
+   */
+  private async breed(
+    ranked: EvolutionMember<State, ActionData>[],
+    generation: number,
+    context: IterationContext,
+    run: SearchRun
+  ): Promise<State> {
+    const a = this.tournament(ranked);
+    const b = this.tournament(ranked);
+    const child = await this.runPhase('crossover', generation, run, () =>
+      this.options.crossover(a.state, b.state, context)
+    );
+    return this.runPhase('transition', generation, run, () =>
+      this.options.transition(child, a.actionResult, a.evaluation, context)
+    );
+  }
+
+  /**
+   * Pick the fittest of `tournamentSize` randomly drawn members
+   *
+   * `ranked` is sorted fittest first, so the lowest drawn index wins.
+   */
+  private tournament(ranked: EvolutionMember<State, ActionData>[]): EvolutionMember<State, ActionData> {
+    let winner = ranked.length - 1;
+    for (let i = 0; i < this.config.tournamentSize; i++) {
+      const index = Math.min(Math.floor(this.config.random() * ranked.length), ranked.length - 1);
+      winner = Math.min(winner, index);
+    }
+    return ranked[winner];
+  }
+}
+
+/**
+ * Factory function for creating an EvolutionProcessor
+ */
+export function createEvolution<Input, State, ActionData, Result>(
+  options: EvolutionOptions<Input, State, ActionData, Result>,
+  config?: EvolutionConfig
+): EvolutionProcessor<Input, State, ActionData, Result> {
+  return new EvolutionProcessor(options, config);
+}
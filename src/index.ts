@@ -30,6 +30,15 @@
 // Core
 export { IterationProcessor, createIterator } from './core';
 
+// Beam search
+export { BeamSearchProcessor, createBeamSearch } from './beam.js';
+
+// Tree search
+export { TreeSearchProcessor, createTreeSearch } from './tree-search.js';
+
+// Evolutionary search
+export { EvolutionProcessor, createEvolution } from './evolution.js';
+
 // Builder
 export { 
   IterationBuilder, 
@@ -38,16 +47,72 @@ export {
   type PresetName 
 } from './builder';
 
+// Checkpoints
+export {
+  MemoryCheckpointStore,
+  FileCheckpointStore,
+  type CheckpointFileSystem,
+} from './checkpoint.js';
+
+// Web streams
+export {
+  toSSEStream,
+  toNDJSONStream,
+  serializeEvent,
+  formatSSE,
+  formatNDJSON,
+  type EventStreamOptions,
+} from './web-stream.js';
+
 // Types
 export type {
   Evaluation,
   ActionResult,
+  ActionStream,
+  ActionChunk,
   IterationConfig,
+  IterationPhase,
+  LoopPhase,
+  PhasePolicy,
+  PhaseRetryPolicy,
+  PhaseRetry,
   ResolvedConfig,
   IterationContext,
+  RunOptions,
+  ContinueOptions,
+  RunManyOptions,
+  BatchItem,
+  BatchStats,
+  BatchResult,
   IterationHistory,
+  CompletedIteration,
+  SkippedIteration,
+  IterationFailure,
+  SkippedCandidate,
+  IterationCandidate,
+  IterationSnapshot,
+  IterationStep,
+  IterationUpdate,
+  IterationContinuation,
+  TerminationReason,
   IterationResult,
+  IterationErrorDecision,
   IterationOptions,
+  IterationCheckpoint,
+  CheckpointStore,
+  StateSerializer,
+  BeamSearchConfig,
+  BeamNode,
+  BeamSearchResult,
+  SelectionPolicy,
+  TreeSearchConfig,
+  TreeNode,
+  ExpandedNode,
+  TreeSearchResult,
+  EvolutionConfig,
+  EvolutionOptions,
+  EvolutionMember,
+  EvolutionResult,
   IterationEvent,
   IterationEventListener,
 } from './types.js';
@@ -59,18 +124,39 @@ export {
   calculateTotalCost,
   calculateAverageScore,
   getScoreProgression,
+  getLastEvaluation,
   isImproving,
   mergeActionResults,
   mergeArrayActionResults,
   mergeObjectActionResults,
   deduplicateBy,
   withRetry,
+  getRetryAfter,
   sleep,
   withTimeout,
   combineEvaluations,
   calculateScore,
+  RateLimiter,
+  CircuitBreaker,
+  createCircuitBreaker,
+  type RetryOptions,
+  type RateLimiterOptions,
+  type CircuitState,
+  type CircuitBreakerOptions,
 } from './utils.js';
 
+// Errors
+export {
+  IteratoPError,
+  PhaseError,
+  ConfigurationError,
+  TimeoutError,
+  CancelledError,
+  CircuitOpenError,
+  RetryExhaustedError,
+  type ErrorContext,
+} from './errors.js';
+
 // Nagare streaming exports
 export { 
   StreamingIteratoP, 
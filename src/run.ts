@@ -0,0 +1,116 @@
+/**
+ * IteratoP - Run Scope
+ *
+ * The deadline and cancellation handling shared by the iteration loop
+ * and the search engines. Internal: not exported from the package.
+ */
+
+import type { TerminationReason } from './types.js';
+import { CancelledError, CircuitOpenError, TimeoutError } from './errors.js';
+
+export interface RunScopeOptions {
+  /** External cancellation signal */
+  signal?: AbortSignal;
+  /** Maximum run time in milliseconds, counted from `startTime` */
+  timeout?: number;
+  /** Timestamp the run counts from (earlier segments of a resumed loop included) */
+  startTime: number;
+  /** Names the run in the timeout message, e.g. `'Iteration loop'` */
+  label: string;
+  /** Iteration reported with a cancellation or timeout */
+  iteration?: () => number | undefined;
+}
+
+/**
+ * Signal and deadline of one run
+ *
+ * `signal` aborts with a `CancelledError` when the external signal aborts
+ * and with a `TimeoutError` when the deadline passes. `close()` must be
+ * called once the run settles.
+ */
+export class RunScope {
+  /** Aborted on external cancellation or when the deadline passes */
+  readonly signal: AbortSignal;
+  private readonly controller = new AbortController();
+  private readonly deadline?: ReturnType<typeof setTimeout>;
+  private expired = false;
+
+  private readonly forwardAbort = (): void => {
+    this.controller.abort(
+      new CancelledError('Run cancelled', {
+        iteration: this.options.iteration?.(),
+        elapsed: Date.now() - this.options.startTime,
+        cause: this.options.signal?.reason,
+      })
+    );
+  };
+
+  constructor(private readonly options: RunScopeOptions) {
+    this.signal = this.controller.signal;
+    const { signal, timeout, startTime } = options;
+    if (signal?.aborted) {
+      this.forwardAbort();
+    } else {
+      signal?.addEventListener('abort', this.forwardAbort, { once: true });
+    }
+
+    if (timeout) {
+      this.deadline = setTimeout(() => {
+        this.expired = true;
+        this.controller.abort(
+          new TimeoutError(`${options.label} timed out after ${timeout}ms`, timeout, {
+            iteration: options.iteration?.(),
+            elapsed: Date.now() - startTime,
+          })
+        );
+      }, Math.max(0, timeout - (Date.now() - startTime)));
+    }
+  }
+
+  /**
+   * Whether the deadline has passed
+   */
+  get timedOut(): boolean {
+    return this.expired;
+  }
+
+  /**
+   * `'timeout'` or `'cancelled'` once the run has been aborted
+   */
+  get abortReason(): 'timeout' | 'cancelled' | undefined {
+    if (!this.signal.aborted) return undefined;
+    return this.expired ? 'timeout' : 'cancelled';
+  }
+
+  /**
+   * Why the loop stops after a phase rejected with `error`
+   *
+   * A phase that rejected because the run was aborted or a circuit breaker
+   * is open ends the loop but keeps the partial history; any other error
+   * is rethrown.
+   */
+  stopReason(error: unknown): TerminationReason {
+    if (!this.signal.aborted && error instanceof CircuitOpenError) return 'circuit_open';
+    if (!this.signal.aborted) throw error;
+    return this.abortReason ?? 'cancelled';
+  }
+
+  /**
+   * Termination reason of an `onError` fallback result
+   *
+   * @param started - Whether the run got past `initialize`
+   */
+  fallbackReason(started: boolean): TerminationReason {
+    // `initialize` gave up because the run was cancelled or timed out
+    return (!started && this.abortReason) || 'manual_stop';
+  }
+
+  /**
+   * Stop the deadline and abort anything still waiting on the run's phases
+   */
+  close(): void {
+    clearTimeout(this.deadline);
+    this.options.signal?.removeEventListener('abort', this.forwardAbort);
+    this.controller.abort();
+  }
+}
@@ -0,0 +1,435 @@
+/**
+ * IteratoP - Search Scaffold
+ *
+ * The run loop shared by beam, tree and evolutionary search: events and
+ * logging, the deadline and cancellation, the budget and termination
+ * checks, finalize and the `onError` fallback. Each engine supplies how
+ * its search starts, runs one iteration and reports where it stands.
+ */
+
+import type {
+  CompletedIteration,
+  Evaluation,
+  IterationConfig,
+  IterationContext,
+  IterationOptions,
+  IterationResult,
+  IterationSnapshot,
+  IterationEvent,
+  IterationEventListener,
+  LoopPhase,
+  RunOptions,
+  TerminationReason,
+} from './types.js';
+import { CircuitOpenError, ConfigurationError, PhaseError } from './errors.js';
+import { RunScope } from './run.js';
+
+/**
+ * Settings every search engine shares with `IterationConfig`
+ */
+export type SearchConfig = Pick<
+  IterationConfig,
+  'maxIterations' | 'targetScore' | 'earlyStopScore' | 'minIterations' | 'timeout' | 'maxCost' | 'verbose' | 'logger'
+>;
+
+export type ResolvedSearchConfig = Required<Omit<SearchConfig, 'timeout' | 'maxCost' | 'logger'>> &
+  Pick<SearchConfig, 'timeout' | 'maxCost' | 'logger'>;
+
+/**
+ * Final result from a search engine, with the engine's own fields
+ */
+export type SearchResult<Result, ActionData, State, Extra> = Omit<
+  IterationResult<Result, ActionData, State>,
+  'continuation' | 'history'
+> & {
+  /** Search engines never skip an iteration */
+  history: CompletedIteration<ActionData>[];
+} & Extra;
+
+/**
+ * Progress of a run, shared between the scaffold and the engine
+ */
+export interface SearchRun {
+  /** Aborted when the run is cancelled or times out */
+  signal: AbortSignal;
+  /** Timestamp when the run started */
+  startTime: number;
+  /** Iterations scored so far; set by the engine */
+  iterations: number;
+  /** Cost of every action so far; added to by the engine */
+  totalCost: number;
+}
+
+/**
+ * Why a search stopped before `maxIterations`
+ */
+export interface SearchStop {
+  reason: TerminationReason;
+  /** Score reported with the `converged` event */
+  score: number;
+}
+
+/**
+ * Where a search stands: what `finalize` receives and the result reports
+ */
+export interface SearchSummary<State, ActionData, Extra> {
+  /** State passed to `finalize` (or `onError`) */
+  state: State;
+  history: CompletedIteration<ActionData>[];
+  finalScore: number;
+  bestScore: number;
+  bestIteration?: IterationSnapshot<State, ActionData>;
+  /** Score compared with `targetScore` for `converged` (absent when nothing was scored) */
+  score?: number;
+  /** Engine-specific result fields */
+  extra: Extra;
+}
+
+/**
+ * A started search, advanced one iteration at a time
+ */
+export interface Search<State, ActionData, Extra> {
+  /**
+   * Run one iteration
+   *
+   * Returns why the search should stop, or undefined to go on.
+   */
+  step(iteration: number, remainingBudget: number | undefined): Promise<SearchStop | undefined>;
+  summarize(): SearchSummary<State, ActionData, Extra>;
+}
+
+/**
+ * Resolve the shared settings, with the engine's default for `maxIterations`
+ */
+export function resolveSearchConfig(config: SearchConfig, maxIterations: number): ResolvedSearchConfig {
+  return {
+    maxIterations: config.maxIterations ?? maxIterations,
+    targetScore: config.targetScore ?? 70,
+    earlyStopScore: config.earlyStopScore ?? 95,
+    minIterations: config.minIterations ?? 1,
+    timeout: config.timeout,
+    maxCost: config.maxCost,
+    verbose: config.verbose ?? false,
+    logger: config.logger,
+  };
+}
+
+/**
+ * Base class of the search engines
+ *
+ * @template Extra - Result fields the engine adds to `IterationResult`
+ */
+export abstract class SearchProcessor<
+  Input,
+  State,
+  ActionData,
+  Result,
+  Extra,
+  Config extends ResolvedSearchConfig = ResolvedSearchConfig,
+  Options extends IterationOptions<Input, State, ActionData, Result> = IterationOptions<
+    Input,
+    State,
+    ActionData,
+    Result
+  >,
+> {
+  private listeners: IterationEventListener<Input, State, ActionData, Result>[] = [];
+
+  /**
+   * @param tag - Log prefix, e.g. `'beam'` for `[IteratoP:beam]`
+   * @param name - Engine name used in messages, e.g. `'Beam search'`
+   */
+  constructor(
+    protected options: Options,
+    protected config: Config,
+    private tag: string,
+    private name: string
+  ) {
+    const { minIterations, maxIterations } = config;
+    if (minIterations > maxIterations) {
+      throw new ConfigurationError(
+        `Invalid configuration: minIterations (${minIterations}) cannot be greater than maxIterations (${maxIterations})`
+      );
+    }
+  }
+
+  /**
+   * Run `initialize` (through `initializeState`) and set up the engine's state for a run
+   */
+  protected abstract start(input: Input, run: SearchRun): Promise<Search<State, ActionData, Extra>>;
+
+  /**
+   * Engine result fields for a run whose `start` failed
+   *
+   * Undefined (the default) rethrows the error instead of calling `onError`.
+   */
+  protected emptyResult(): Extra | undefined {
+    return undefined;
+  }
+
+  /**
+   * Add an event listener
+   */
+  on(listener: IterationEventListener<Input, State, ActionData, Result>): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  /**
+   * Emit an event to all listeners
+   */
+  protected emit(event: IterationEvent<Input, State, ActionData, Result>): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (e) {
+        const logger = this.config.logger;
+        if (logger?.error) {
+          logger.error(`[IteratoP:${this.tag}] Event listener error:`, e);
+        } else {
+          console.error(`[IteratoP:${this.tag}] Event listener error:`, e);
+        }
+      }
+    }
+  }
+
+  /**
+   * Log message if verbose mode is enabled
+   */
+  protected log(message: string, ...args: unknown[]): void {
+    if (this.config.verbose) {
+      const logger = this.config.logger;
+      if (logger?.log) {
+        logger.log(`[IteratoP:${this.tag}] ${message}`, ...args);
+      } else {
+        console.log(`[IteratoP:${this.tag}] ${message}`, ...args);
+      }
+    }
+  }
+
+  /**
+   * Run a search from start to finalize
+   */
+  protected async execute(
+    input: Input,
+    options: RunOptions
+  ): Promise<SearchResult<Result, ActionData, State, Extra>> {
+    const { signal } = options;
+
+    const startTime = Date.now();
+    const scope = new RunScope({
+      signal,
+      timeout: this.config.timeout,
+      startTime,
+      label: this.name,
+    });
+    const run: SearchRun = { signal: scope.signal, startTime, iterations: 0, totalCost: 0 };
+
+    this.emit({ type: 'start', input });
+
+    let search: Search<State, ActionData, Extra> | undefined;
+    let terminationReason: TerminationReason = 'max_iterations';
+
+    try {
+      search = await this.start(input, run);
+
+      try {
+        for (let i = 0; i < this.config.maxIterations; i++) {
+          if (scope.timedOut) {
+            terminationReason = 'timeout';
+            break;
+          }
+          if (run.signal.aborted) {
+            terminationReason = 'cancelled';
+            break;
+          }
+          const remainingBudget = this.getRemainingBudget(run.totalCost);
+          if (remainingBudget !== undefined && remainingBudget <= 0) {
+            terminationReason = 'budget_exhausted';
+            break;
+          }
+
+          this.emit({ type: 'iteration_start', iteration: i });
+          const stop = await search.step(i, remainingBudget);
+
+          if (stop) {
+            terminationReason = stop.reason;
+            this.log(`Terminating: ${terminationReason}`, { score: stop.score });
+            this.emit({ type: 'converged', iteration: i, score: stop.score });
+            break;
+          }
+        }
+      } catch (error) {
+        terminationReason = scope.stopReason(error);
+        if (terminationReason === 'circuit_open') {
+          this.log('Circuit open', { retryAfter: (error as CircuitOpenError).retryAfter });
+        } else {
+          this.log(terminationReason === 'timeout' ? 'Timeout reached' : 'Run cancelled');
+        }
+      }
+
+      // Finalize
+      const summary = search.summarize();
+      const result = await this.runPhase('finalize', run.iterations, run, () =>
+        this.options.finalize(summary.state, summary.history)
+      );
+      const searchResult: SearchResult<Result, ActionData, State, Extra> = {
+        result,
+        iterations: run.iterations,
+        finalScore: summary.finalScore,
+        bestScore: summary.bestScore,
+        bestIteration: summary.bestIteration,
+        converged:
+          terminationReason === 'converged' ||
+          terminationReason === 'early_stop' ||
+          (summary.score !== undefined && summary.score >= this.config.targetScore),
+        terminationReason,
+        totalCost: run.totalCost,
+        totalLatency: Date.now() - run.startTime,
+        history: summary.history,
+        ...summary.extra,
+      };
+
+      this.emit({ type: 'complete', result: searchResult });
+      this.log(`${this.name} complete`, {
+        iterations: run.iterations,
+        finalScore: summary.finalScore,
+        bestScore: summary.bestScore,
+        terminationReason,
+      });
+
+      return searchResult;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      const summary = search?.summarize();
+      this.emit({ type: 'error', error: err, iteration: run.iterations, state: summary?.state });
+      this.log('Error occurred', { error: err.message });
+
+      const extra = summary ? summary.extra : this.emptyResult();
+      if (this.options.onError && extra !== undefined) {
+        const history = summary?.history ?? [];
+        const context = this.createContext(
+          run,
+          run.iterations,
+          history[history.length - 1]?.evaluation,
+          this.getRemainingBudget(run.totalCost)
+        );
+        const fallbackResult = await this.options.onError(err, summary?.state, context);
+        return {
+          result: fallbackResult,
+          iterations: run.iterations,
+          finalScore: summary?.finalScore ?? 0,
+          bestScore: summary?.bestScore ?? 0,
+          bestIteration: summary?.bestIteration,
+          converged: false,
+          terminationReason: scope.fallbackReason(summary !== undefined),
+          totalCost: run.totalCost,
+          totalLatency: Date.now() - run.startTime,
+          history,
+          ...extra,
+        };
+      }
+
+      throw error;
+    } finally {
+      scope.close();
+    }
+  }
+
+  /**
+   * Run `initialize` with the run's signal
+   *
+   * It is always awaited, so a run cancelled or timed out meanwhile still
+   * finalizes its initial state.
+   */
+  protected async initializeState(input: Input, run: SearchRun): Promise<State> {
+    return this.runPhase('initialize', 0, run, () => this.options.initialize(input, run.signal));
+  }
+
+  /**
+   * Run a user callback, reporting its failure as a `PhaseError`
+   *
+   * Failures of an aborted run and open circuits pass through unchanged.
+   */
+  protected async runPhase<T>(
+    phase: LoopPhase,
+    iteration: number,
+    run: SearchRun,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      if (run.signal.aborted || error instanceof CircuitOpenError) throw error;
+      throw new PhaseError(phase, { iteration, elapsed: Date.now() - run.startTime, cause: error });
+    }
+  }
+
+  /**
+   * Context for the phases of an iteration
+   */
+  protected createContext(
+    run: SearchRun,
+    iteration: number,
+    previousEvaluation: Evaluation | undefined,
+    remainingBudget: number | undefined
+  ): IterationContext {
+    return {
+      iteration,
+      maxIterations: this.config.maxIterations,
+      elapsedTime: Date.now() - run.startTime,
+      previousEvaluation,
+      remainingBudget,
+      signal: run.signal,
+    };
+  }
+
+  /**
+   * Check if the search should terminate after an evaluation
+   *
+   * `score` is the score held against `targetScore`; engines that track
+   * a best score across the run pass it here.
+   */
+  protected checkTermination(
+    state: State,
+    evaluation: Evaluation,
+    context: IterationContext,
+    totalCost: number,
+    score: number = evaluation.score
+  ): { terminate: boolean; reason: TerminationReason } {
+    if (this.options.shouldTerminate?.(state, evaluation, context)) {
+      return { terminate: true, reason: 'manual_stop' };
+    }
+    if (evaluation.score >= this.config.earlyStopScore) {
+      return { terminate: true, reason: 'early_stop' };
+    }
+    if (!evaluation.shouldContinue) {
+      return { terminate: true, reason: 'converged' };
+    }
+    if (score >= this.config.targetScore && context.iteration >= this.config.minIterations - 1) {
+      return { terminate: true, reason: 'converged' };
+    }
+    const remainingBudget = this.getRemainingBudget(totalCost);
+    if (remainingBudget !== undefined && remainingBudget <= 0) {
+      return { terminate: true, reason: 'budget_exhausted' };
+    }
+
+    return { terminate: false, reason: 'max_iterations' };
+  }
+
+  /**
+   * Budget left under `maxCost`, or undefined when no budget is set
+   */
+  protected getRemainingBudget(totalCost: number): number | undefined {
+    return this.config.maxCost !== undefined ? this.config.maxCost - totalCost : undefined;
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): Config {
+    return { ...this.config };
+  }
+}
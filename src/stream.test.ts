@@ -1,7 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { StreamingIteratoP, StreamingIteratoPBuilder, createStreamingIterator } from './stream';
 import { createEvaluation, createActionResult } from './utils';
-import type { IterationContext } from './types';
+import type { IterationContext, IterationEvent } from './types';
 
 describe('StreamingIteratoP', () => {
   describe('executeStream', () => {
@@ -63,6 +63,225 @@ describe('StreamingIteratoP', () => {
     });
   });
 
+  describe('incremental streaming', () => {
+    it('should emit each state before the next iteration runs', async () => {
+      let actCalls = 0;
+      const processor = new StreamingIteratoP(
+        {
+          initialize: async (input: number) => ({ value: input }),
+          act: async () => {
+            actCalls++;
+            return createActionResult({ data: 'test' });
+          },
+          evaluate: async () => createEvaluation(10, { shouldContinue: true }),
+          transition: async (state) => ({ value: state.value + 1 }),
+          finalize: async (state) => state,
+        },
+        { maxIterations: 5, targetScore: 90 }
+      );
+
+      const callsAtEmit: number[] = [];
+      const stream = await processor.executeStream(0);
+
+      for await (const state of stream) {
+        callsAtEmit.push(actCalls);
+      }
+
+      expect(callsAtEmit).toEqual([1, 2, 3, 4, 5, 5]);
+    });
+
+    it('should stop calling act when the consumer stops reading', async () => {
+      let actCalls = 0;
+      const processor = new StreamingIteratoP(
+        {
+          initialize: async (input: number) => ({ value: input }),
+          act: async () => {
+            actCalls++;
+            return createActionResult({ data: 'test' });
+          },
+          evaluate: async () => createEvaluation(10, { shouldContinue: true }),
+          transition: async (state) => ({ value: state.value + 1 }),
+          finalize: async (state) => state,
+        },
+        { maxIterations: 10, targetScore: 90 }
+      );
+
+      const stream = await processor.executeStream(0);
+
+      for await (const state of stream) {
+        if (state.iteration === 1) break;
+      }
+
+      expect(actCalls).toBe(2);
+    });
+
+    it('should end the run when the consumer stops reading', async () => {
+      const processor = new StreamingIteratoP(
+        {
+          initialize: async (input: number) => ({ value: input }),
+          act: async () => createActionResult({ data: 'test' }),
+          evaluate: async () => createEvaluation(10, { shouldContinue: true }),
+          transition: async (state) => ({ value: state.value + 1 }),
+          finalize: async (state) => state,
+        },
+        { maxIterations: 10, targetScore: 90 }
+      );
+      const events: IterationEvent[] = [];
+      processor.on((event) => events.push(event));
+
+      for await (const state of await processor.executeStream(0)) {
+        if (state.iteration === 0) break;
+      }
+
+      // Leaving the loop must close the source iterator, which cancels and finalizes the run
+      const complete = events.find((event) => event.type === 'complete');
+      expect(complete?.type === 'complete' && complete.result.terminationReason).toBe('cancelled');
+    });
+
+    it('should stop when the signal aborts', async () => {
+      const controller = new AbortController();
+      let actCalls = 0;
+      const processor = new StreamingIteratoP(
+        {
+          initialize: async (input: number) => ({ value: input }),
+          act: async () => {
+            actCalls++;
+            if (actCalls === 2) controller.abort();
+            return createActionResult({ data: 'test' });
+          },
+          evaluate: async () => createEvaluation(10, { shouldContinue: true }),
+          transition: async (state) => ({ value: state.value + 1 }),
+          finalize: async (state) => state,
+        },
+        { maxIterations: 10, targetScore: 90 }
+      );
+
+      const states: any[] = [];
+      const stream = await processor.executeStream(0, { signal: controller.signal });
+
+      for await (const state of stream) {
+        states.push(state);
+      }
+
+      expect(actCalls).toBe(2);
+      expect(states[states.length - 1].terminationReason).toBe('cancelled');
+    });
+  });
+
+  describe('parity with IterationProcessor', () => {
+    const createOptions = () => ({
+      initialize: async (input: number) => ({ value: input }),
+      act: async (state: { value: number }) => createActionResult(state.value + 1),
+      evaluate: async (_: { value: number }, actionResult: { data: number }) =>
+        createEvaluation(actionResult.data * 20, { shouldContinue: true }),
+      transition: async (_: { value: number }, actionResult: { data: number }) => ({
+        value: actionResult.data,
+      }),
+      finalize: async (state: { value: number }) => state.value * 100,
+    });
+
+    it('should end with the same result as run()', async () => {
+      const config = { maxIterations: 10, targetScore: 200, earlyStopScore: 90 };
+      const streaming = new StreamingIteratoP(createOptions(), config);
+
+      const states: any[] = [];
+      for await (const state of await streaming.executeStream(1)) {
+        states.push(state);
+      }
+      const expected = await streaming.execute(1);
+      const final = states[states.length - 1];
+
+      expect(final.terminationReason).toBe('early_stop');
+      expect(final.result.result).toBe(expected.result);
+      expect(final.result.iterations).toBe(expected.iterations);
+      expect(final.result.terminationReason).toBe(expected.terminationReason);
+      expect(states.slice(0, -1).map((s) => s.iteration)).toEqual([0, 1, 2, 3]);
+    });
+
+    it('should honour shouldTerminate and onError', async () => {
+      const stopped = new StreamingIteratoP(
+        { ...createOptions(), shouldTerminate: (state: { value: number }) => state.value >= 2 },
+        { maxIterations: 10, targetScore: 200 }
+      );
+      const failing = new StreamingIteratoP(
+        {
+          ...createOptions(),
+          act: async () => {
+            throw new Error('boom');
+          },
+          onError: async () => -1,
+        },
+        { maxIterations: 10 }
+      );
+
+      const stoppedStates: any[] = [];
+      for await (const state of await stopped.executeStream(1)) stoppedStates.push(state);
+      const failedStates: any[] = [];
+      for await (const state of await failing.executeStream(1)) failedStates.push(state);
+
+      expect(stoppedStates[stoppedStates.length - 1].terminationReason).toBe('manual_stop');
+      expect(failedStates[failedStates.length - 1].result.result).toBe(-1);
+    });
+
+    it('should end an onError run with the state the loop failed on', async () => {
+      const failing = new StreamingIteratoP(
+        {
+          ...createOptions(),
+          act: async (state: { value: number }) => {
+            if (state.value >= 3) throw new Error('boom');
+            return createActionResult(state.value + 1);
+          },
+          onError: async () => -1,
+        },
+        { maxIterations: 10, targetScore: 200 }
+      );
+
+      const events: string[] = [];
+      const states: any[] = [];
+      for await (const state of await failing.executeStream(1, { onEvent: (e) => events.push(e.type) })) {
+        states.push(state);
+      }
+
+      const final = states[states.length - 1];
+      expect(final.result.result).toBe(-1);
+      expect(final.result.continuation).toBeUndefined();
+      expect(final.state).toEqual({ value: 3 });
+      expect(events).toContain('error');
+    });
+
+    it('should stream chunks from streaming actions', async () => {
+      const streaming = new StreamingIteratoP(
+        {
+          ...createOptions(),
+          act: async function* (state: { value: number }) {
+            yield `token-${state.value}`;
+            return createActionResult(state.value + 1);
+          },
+        },
+        { maxIterations: 2, targetScore: 200 }
+      );
+
+      const states: any[] = [];
+      for await (const state of await streaming.executeStream(1)) states.push(state);
+
+      expect(states.map((s) => s.chunk)).toEqual(['token-1', undefined, 'token-2', undefined, undefined]);
+      expect(states[0].evaluation).toBeUndefined();
+    });
+
+    it('should notify listeners', async () => {
+      const streaming = new StreamingIteratoP(createOptions(), { maxIterations: 2, targetScore: 200 });
+      const types: string[] = [];
+      streaming.on((event) => types.push(event.type));
+
+      for await (const _ of await streaming.executeStream(1)) {
+        // drain
+      }
+
+      expect(types[0]).toBe('start');
+      expect(types[types.length - 1]).toBe('complete');
+    });
+  });
+
   describe('evaluationStream', () => {
     it('should stream evaluations only', async () => {
       const processor = new StreamingIteratoP(
@@ -86,10 +305,11 @@ describe('StreamingIteratoP', () => {
         evaluations.push(evaluation);
       }
 
-      // We get 2 evaluations (iterations 1 and 2)
-      expect(evaluations.length).toBe(2);
-      expect(evaluations[0].score).toBe(40);
-      expect(evaluations[1].score).toBe(80);
+      // We get 3 evaluations (iterations 0, 1 and 2)
+      expect(evaluations.length).toBe(3);
+      expect(evaluations[0].score).toBe(0);
+      expect(evaluations[1].score).toBe(40);
+      expect(evaluations[2].score).toBe(80);
     });
   });
 
@@ -118,10 +338,10 @@ describe('StreamingIteratoP', () => {
         actions.push(action);
       }
 
-      // We get 2 actions (iterations 1 and 2)
-      expect(actions.length).toBe(2);  
-      expect(actions[0].data.result).toBe('action-1');
-      expect(actions[1].data.result).toBe('action-2');
+      // We get 3 actions (iterations 0, 1 and 2)
+      expect(actions.length).toBe(3);
+      expect(actions[0].data.result).toBe('action-0');
+      expect(actions[2].data.result).toBe('action-2');
     });
   });
 
@@ -1,170 +1,156 @@
 import type { Stream } from '@aid-on/nagare';
-import { fromArray } from '@aid-on/nagare';
-import { createIterator } from './core.js';
+import { fromAsyncIterable } from '@aid-on/nagare';
+import { IterationProcessor, createIterator } from './core.js';
 import type {
   IterationConfig,
   IterationContext,
   IterationHistory,
   ActionResult,
+  ActionStream,
   Evaluation,
   IterationResult,
   IterationOptions,
+  IterationEventListener,
+  RunOptions,
+  TerminationReason,
 } from './types.js';
+import { ConfigurationError } from './errors.js';
+import { getLastEvaluation } from './utils.js';
 
 /**
  * Streaming iteration state for nagare
+ *
+ * One item is emitted per iteration, followed by a final item that
+ * carries the `IterationResult` of the run. Streaming actions add one
+ * item per chunk, emitted while the iteration's action runs.
  */
-export interface StreamingState<State, ActionData> {
+export interface StreamingState<State, ActionData, Result = unknown> {
+  /** Iteration number (0-based); on the final item, the number of iterations run */
   iteration: number;
-  state: State;
+  /**
+   * State after the iteration; on the final item, the state the loop ended
+   * with. When `onError` produced the result, the final item carries the
+   * state at the time of the failure, which is unset if `initialize` failed.
+   */
+  state?: State;
   evaluation?: Evaluation;
   actionResult?: ActionResult<ActionData>;
+  /** Whether the score reached `targetScore` */
   converged: boolean;
   timedOut?: boolean;
   context: IterationContext;
+  /** Partial output of a streaming action (chunk items only) */
+  chunk?: unknown;
+  /** Why the loop stopped (final item only) */
+  terminationReason?: TerminationReason;
+  /** Same result `IterationProcessor.run` returns (final item only) */
+  result?: IterationResult<Result, ActionData, State>;
 }
 
 /**
  * Stream adapter for IteratoP with nagare
  * Provides streaming iteration results compatible with nagare's Stream<T> interface
+ *
+ * Runs on the same engine as `IterationProcessor`, so termination,
+ * error handling and events behave exactly as with `run()`.
  */
 export class StreamingIteratoP<Input, State, ActionData, Result> {
+  private processor: IterationProcessor<Input, State, ActionData, Result>;
+
   constructor(
-    private config: IterationOptions<Input, State, ActionData, Result>,
-    private options?: IterationConfig
-  ) {}
+    config: IterationOptions<Input, State, ActionData, Result>,
+    options?: IterationConfig
+  ) {
+    this.processor = createIterator(config, options);
+  }
+
+  /**
+   * Add an event listener
+   */
+  on(listener: IterationEventListener<Input, State, ActionData, Result>): () => void {
+    return this.processor.on(listener);
+  }
 
   /**
    * Execute iterations and return a nagare Stream of iteration states
-   * 
-   * Since nagare streams are synchronous at creation time, we need to collect
-   * all states first and then stream them
+   *
+   * Each state is emitted as soon as its iteration finishes, and the next
+   * iteration only starts once the consumer reads on. When the consumer
+   * stops reading (or `options.signal` aborts), no further iterations run.
+   * Cancelling the stream closes the source iterator through
+   * `fromAsyncIterable`, which ends the run with `'cancelled'`.
    */
-  async executeStream(input: Input): Promise<Stream<StreamingState<State, ActionData>>> {
-    const states: StreamingState<State, ActionData>[] = [];
-    
-    try {
-      // Initialize
-      const initialState = await this.config.initialize(input);
-      let currentState = initialState;
-      let iteration = 0;
-      let converged = false;
-      const history: IterationHistory<ActionData>[] = [];
-      
-      const maxIterations = this.options?.maxIterations ?? 5;
-      const minIterations = this.options?.minIterations ?? 1;
-      const targetScore = this.options?.targetScore ?? 70;
-      const skipMinIterations = this.options?.skipMinIterations ?? false;
-      const startTime = Date.now();
-      const timeout = this.options?.timeout;
-      
-      // Emit initial state
-      const initialContext: IterationContext = {
-        iteration: 0,
-        maxIterations,
-        elapsedTime: 0,
-      };
-      
-      states.push({
-        iteration: 0,
-        state: currentState,
-        converged: false,
-        context: initialContext,
-      });
+  async executeStream(
+    input: Input,
+    options: RunOptions = {}
+  ): Promise<Stream<StreamingState<State, ActionData, Result>>> {
+    return fromAsyncIterable(this.generateStates(input, options));
+  }
 
-      while (iteration < maxIterations && !converged) {
-        const iterationStartTime = Date.now();
+  /**
+   * Map the processor's updates to streaming states
+   */
+  private async *generateStates(
+    input: Input,
+    options: RunOptions
+  ): AsyncGenerator<StreamingState<State, ActionData, Result>> {
+    const { targetScore, maxIterations } = this.processor.getConfig();
 
-        // Check timeout BEFORE incrementing iteration
-        if (timeout && Date.now() - startTime > timeout) {
-          const context: IterationContext = {
-            iteration: iteration + 1,
-            maxIterations,
-            elapsedTime: Date.now() - startTime,
-            previousEvaluation: history[history.length - 1]?.evaluation,
-          };
-          
-          states.push({
-            iteration: iteration + 1,
-            state: currentState,
-            converged: false,
-            timedOut: true,
-            context,
-          });
-          break;
-        }
-        
-        iteration++;
+    // A result produced by `onError` has no continuation; its state is on the 'error' event
+    let failedState: State | undefined;
+    const onEvent: IterationEventListener = (event) => {
+      if (event.type === 'error') failedState = event.state as State | undefined;
+      options.onEvent?.(event);
+    };
 
-        const context: IterationContext = {
-          iteration,
-          maxIterations,
-          elapsedTime: Date.now() - startTime,
-          previousEvaluation: history[history.length - 1]?.evaluation,
+    for await (const update of this.processor.iterate(input, { ...options, onEvent })) {
+      if (update.type === 'chunk') {
+        yield {
+          iteration: update.iteration,
+          state: update.state,
+          chunk: update.chunk,
+          converged: false,
+          context: update.context,
         };
-
-        // Act phase
-        const actionResult = await this.config.act(currentState, context);
-
-        // Evaluate phase
-        const evaluation = await this.config.evaluate(currentState, actionResult, context);
-
-        // Record history
-        history.push({
-          iteration,
-          actionResult,
-          evaluation,
-          timestamp: Date.now(),
-          duration: Date.now() - iterationStartTime,
-        });
-
-        // Check convergence
-        if (skipMinIterations && evaluation.score >= targetScore) {
-          converged = true;
-        } else if (evaluation.score >= targetScore && iteration >= minIterations) {
-          converged = true;
-        } else if (!evaluation.shouldContinue && iteration >= minIterations) {
-          converged = true;
-        }
-
-        // Transition phase
-        if (!converged && this.config.transition) {
-          currentState = await this.config.transition(currentState, actionResult, evaluation, context);
-        }
-
-        // Emit state after transition
-        states.push({
-          iteration,
-          state: currentState,
-          actionResult,
-          evaluation,
-          converged,
-          context,
-        });
-        
-        // If just converged, break out of loop
-        if (converged) {
-          break;
-        }
+        continue;
       }
 
-      // Finalize if configured
-      if (this.config.finalize) {
-        await this.config.finalize(currentState, history);
+      if (update.type === 'iteration') {
+        yield {
+          iteration: update.iteration,
+          state: update.state,
+          actionResult: update.actionResult,
+          evaluation: update.evaluation,
+          converged: update.evaluation !== undefined && update.evaluation.score >= targetScore,
+          context: update.context,
+        };
+        continue;
       }
-    } catch (error) {
-      throw error;
+
+      const { result } = update;
+      const lastEvaluation = getLastEvaluation(result.history);
+      yield {
+        iteration: result.iterations,
+        state: result.continuation ? result.continuation.state : failedState,
+        converged: result.converged,
+        timedOut: result.terminationReason === 'timeout',
+        context: {
+          iteration: result.iterations,
+          maxIterations,
+          elapsedTime: result.totalLatency,
+          previousEvaluation: lastEvaluation,
+        },
+        terminationReason: result.terminationReason,
+        result,
+      };
     }
-    
-    // Return as a nagare stream
-    return fromArray(states);
   }
 
   /**
    * Execute iterations and return a nagare Stream of evaluations only
    */
-  async evaluationStream(input: Input): Promise<Stream<Evaluation>> {
-    const stateStream = await this.executeStream(input);
+  async evaluationStream(input: Input, options?: RunOptions): Promise<Stream<Evaluation>> {
+    const stateStream = await this.executeStream(input, options);
     return stateStream
       .map(state => state.evaluation)
       .filter((evaluation): evaluation is Evaluation => evaluation !== undefined) as Stream<Evaluation>;
@@ -173,8 +159,8 @@ export class StreamingIteratoP<Input, State, ActionData, Result> {
   /**
    * Execute iterations and return a nagare Stream of action results only
    */
-  async actionStream(input: Input): Promise<Stream<ActionResult<ActionData>>> {
-    const stateStream = await this.executeStream(input);
+  async actionStream(input: Input, options?: RunOptions): Promise<Stream<ActionResult<ActionData>>> {
+    const stateStream = await this.executeStream(input, options);
     return stateStream
       .map(state => state.actionResult)
       .filter((actionResult): actionResult is ActionResult<ActionData> => actionResult !== undefined) as Stream<ActionResult<ActionData>>;
@@ -183,9 +169,8 @@ export class StreamingIteratoP<Input, State, ActionData, Result> {
   /**
    * Execute and return final result (non-streaming)
    */
-  async execute(input: Input): Promise<IterationResult<Result, ActionData>> {
-    const processor = createIterator(this.config, this.options);
-    return processor.run(input);
+  async execute(input: Input, options?: RunOptions): Promise<IterationResult<Result, ActionData, State>> {
+    return this.processor.run(input, options);
   }
 }
 
@@ -196,12 +181,17 @@ export class StreamingIteratoPBuilder<Input, State, ActionData, Result = State>
   private config: Partial<IterationOptions<Input, State, ActionData, Result>> = {};
   private options: IterationConfig = {};
 
-  withInitialize(fn: (input: Input) => Promise<State>): this {
+  withInitialize(fn: (input: Input, signal: AbortSignal) => Promise<State>): this {
     this.config.initialize = fn;
     return this;
   }
 
-  withAct(fn: (state: State, context: IterationContext) => Promise<ActionResult<ActionData>>): this {
+  withAct(
+    fn: (
+      state: State,
+      context: IterationContext
+    ) => Promise<ActionResult<ActionData>> | ActionStream<ActionData>
+  ): this {
     this.config.act = fn;
     return this;
   }
@@ -243,7 +233,7 @@ export class StreamingIteratoPBuilder<Input, State, ActionData, Result = State>
 
   build(): StreamingIteratoP<Input, State, ActionData, Result> {
     if (!this.config.initialize || !this.config.act || !this.config.evaluate) {
-      throw new Error('initialize, act, and evaluate functions are required');
+      throw new ConfigurationError('initialize, act, and evaluate functions are required');
     }
 
     // Ensure transition is defined
@@ -251,6 +241,11 @@ export class StreamingIteratoPBuilder<Input, State, ActionData, Result = State>
       this.config.transition = async (state) => state;
     }
 
+    // Default finalize returns the final state
+    if (!this.config.finalize) {
+      this.config.finalize = async (state) => state as unknown as Result;
+    }
+
     return new StreamingIteratoP(
       this.config as IterationOptions<Input, State, ActionData, Result>,
       this.options
@@ -0,0 +1,221 @@
+/**
+ * IteratoP - Tree Search Tests
+ */
+
+import { TreeSearchProcessor, createTreeSearch } from './tree-search';
+import { createEvaluation, createActionResult } from './utils';
+import { PhaseError } from './errors';
+import type { IterationOptions } from './types';
+
+interface PlanState {
+  moves: number[];
+}
+
+// Scores of partial plans, keyed by their moves. Move 0 looks worse at
+// depth 1, but the best plan ('0.0') lies beneath it.
+const PLAN_SCORES = new Map<string, number>([
+  ['0', 30],
+  ['1', 60],
+  ['0.0', 90],
+  ['0.1', 40],
+  ['1.0', 70],
+  ['1.1', 80],
+]);
+
+const planKey = (moves: number[]) => moves.join('.');
+
+// Expanding a plan appends its next untried move: 0, then 1, ...
+function createPlanOptions(delay = 0): IterationOptions<string, PlanState, number[], string> {
+  const tried = new Map<string, number>();
+  return {
+    initialize: async () => ({ moves: [] }),
+    act: async (state) => {
+      const move = tried.get(planKey(state.moves)) ?? 0;
+      tried.set(planKey(state.moves), move + 1);
+      if (delay) await new Promise((resolve) => setTimeout(resolve, delay));
+      return createActionResult([...state.moves, move], { cost: 0.01 });
+    },
+    evaluate: async (_, actionResult) =>
+      createEvaluation(PLAN_SCORES.get(planKey(actionResult.data)) ?? 0, { shouldContinue: true }),
+    transition: async (_, actionResult) => ({ moves: actionResult.data }),
+    finalize: async (state) => planKey(state.moves),
+  };
+}
+
+describe('TreeSearchProcessor', () => {
+  const config = { maxChildren: 2, maxIterations: 4, targetScore: 100, earlyStopScore: 100 };
+
+  it('should follow the highest mean score with greedy selection', async () => {
+    const search = createTreeSearch(createPlanOptions(), { ...config, selection: 'greedy' });
+
+    const result = await search.run('plan');
+
+    expect(result.result).toBe('1.1');
+    expect(result.bestScore).toBe(80);
+    expect(result.history.map((h) => h.actionResult?.data)).toEqual([[1], [1, 1]]);
+    expect(result.terminationReason).toBe('max_iterations');
+  });
+
+  it('should explore less visited branches with UCB', async () => {
+    const search = createTreeSearch(createPlanOptions(), { ...config, selection: 'ucb' });
+
+    const result = await search.run('plan');
+
+    expect(result.result).toBe('0.0');
+    expect(result.bestScore).toBe(90);
+    expect(result.bestIteration?.state).toEqual({ moves: [0] });
+  });
+
+  it('should exploit like greedy selection when UCB has no exploration bonus', async () => {
+    const search = createTreeSearch(createPlanOptions(), { ...config, selection: 'ucb', exploration: 0 });
+
+    const result = await search.run('plan');
+
+    expect(result.result).toBe('1.1');
+    expect(result.tree.children[0].children).toHaveLength(0);
+  });
+
+  it('should descend once a node has maxChildren children', async () => {
+    const search = createTreeSearch(createPlanOptions(), { ...config, selection: 'greedy', maxIterations: 6 });
+
+    const result = await search.run('plan');
+    const [first, second] = result.tree.children;
+
+    expect(result.tree.children).toHaveLength(2);
+    expect(first.children).toHaveLength(0);
+    // '1.1' scored best at depth 2, then '1.0' once '1.1.0' dragged its mean down
+    expect(second.children.map((node) => node.children.map((child) => planKey(child.state.moves)))).toEqual([
+      ['1.0.0'],
+      ['1.1.0'],
+    ]);
+    expect(second.children[1].children[0]).toMatchObject({ depth: 3, iteration: 4 });
+    expect(second.children[0].children[0]).toMatchObject({ depth: 3, iteration: 5 });
+  });
+
+  it('should build a single chain with maxChildren 1', async () => {
+    const search = createTreeSearch(createPlanOptions(), { ...config, maxChildren: 1, maxIterations: 3 });
+
+    const result = await search.run('plan');
+
+    const chain: { depth: number; plan: string }[] = [];
+    for (let node = result.tree.children[0]; node; node = node.children[0]) {
+      chain.push({ depth: node.depth, plan: planKey(node.state.moves) });
+    }
+    expect(chain).toEqual([
+      { depth: 1, plan: '0' },
+      { depth: 2, plan: '0.0' },
+      { depth: 3, plan: '0.0.0' },
+    ]);
+    expect(result.result).toBe('0.0');
+  });
+
+  it('should pick a random child with epsilon-greedy', async () => {
+    const search = createTreeSearch(createPlanOptions(), {
+      ...config,
+      maxIterations: 3,
+      selection: 'epsilon-greedy',
+      epsilon: 0.5,
+      random: () => 0,
+    });
+
+    const result = await search.run('plan');
+
+    // Greedy would expand '1'; the random choice lands on the first child
+    expect(result.tree.children[0].children.map((node) => planKey(node.state.moves))).toEqual(['0.0']);
+    expect(result.tree.children[1].children).toHaveLength(0);
+  });
+
+  it('should export the explored tree with backpropagated scores', async () => {
+    const search = createTreeSearch(createPlanOptions(), { ...config, selection: 'greedy' });
+
+    const result = await search.run('plan');
+    const tree = JSON.parse(JSON.stringify(result.tree));
+
+    expect(result.nodes).toBe(5);
+    expect(tree.visits).toBe(4);
+    expect(tree.totalScore).toBe(30 + 60 + 70 + 80);
+    expect(tree.children.map((node: { state: PlanState }) => planKey(node.state.moves))).toEqual(['0', '1']);
+    const b = tree.children[1];
+    expect(b).toMatchObject({ id: 2, parentId: 0, depth: 1, iteration: 1, visits: 3, totalScore: 210 });
+    expect(b.children.map((node: { id: number; parentId: number }) => [node.id, node.parentId])).toEqual([
+      [3, 2],
+      [4, 2],
+    ]);
+  });
+
+  it('should record when each node was expanded in history', async () => {
+    const search = createTreeSearch(createPlanOptions(5), { ...config, selection: 'greedy' });
+
+    const result = await search.run('plan');
+    const b = result.tree.children[1];
+
+    expect(result.history.map((h) => h.timestamp)).toEqual([b.timestamp, b.children[1].timestamp]);
+    expect(result.history[1].timestamp).toBeGreaterThan(result.history[0].timestamp);
+    expect(result.history.every((h) => h.duration >= 4)).toBe(true);
+  });
+
+  it('should stop once a node reaches the target score', async () => {
+    const search = createTreeSearch(createPlanOptions(), {
+      ...config,
+      selection: 'greedy',
+      maxIterations: 10,
+      targetScore: 70,
+    });
+
+    const result = await search.run('plan');
+
+    expect(result.converged).toBe(true);
+    expect(result.terminationReason).toBe('converged');
+    expect(result.iterations).toBe(3);
+  });
+
+  it('should stop once the budget is spent', async () => {
+    const search = createTreeSearch(createPlanOptions(), { ...config, maxIterations: 10, maxCost: 0.02 });
+
+    const result = await search.run('plan');
+
+    expect(result.terminationReason).toBe('budget_exhausted');
+    expect(result.nodes).toBe(3);
+  });
+
+  it('should cancel when the signal aborts', async () => {
+    const search = createTreeSearch(createPlanOptions(20), { ...config, maxIterations: 10 });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 30);
+
+    const result = await search.run('', { signal: controller.signal });
+
+    expect(result.terminationReason).toBe('cancelled');
+    expect(result.iterations).toBe(1);
+    expect(result.result).toBe('0');
+  });
+
+  it('should use onError when a phase fails', async () => {
+    const options = createPlanOptions();
+    options.transition = async () => {
+      throw new Error('planner crashed');
+    };
+    options.onError = async (error, state) =>
+      `${state ? planKey(state.moves) || 'root' : 'none'}: ${error instanceof PhaseError ? error.phase : error.message}`;
+    const search = createTreeSearch(options, config);
+
+    const result = await search.run('plan');
+
+    expect(result.result).toBe('root: transition');
+    expect(result.terminationReason).toBe('manual_stop');
+  });
+
+  it('should validate the configuration', () => {
+    expect(() => new TreeSearchProcessor(createPlanOptions(), { maxChildren: 0 })).toThrow(
+      'maxChildren (0) must be a positive integer'
+    );
+    expect(() => new TreeSearchProcessor(createPlanOptions(), { epsilon: 2 })).toThrow(
+      'epsilon (2) must be between 0 and 1'
+    );
+    expect(createTreeSearch(createPlanOptions()).getConfig()).toMatchObject({
+      selection: 'ucb',
+      maxChildren: 3,
+      maxIterations: 20,
+    });
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * IteratoP - Tree Search
+ *
+ * MCTS-style exploration for multi-step planning. Every `transition`
+ * output becomes a node of a search tree, and `Evaluation.score` is the
+ * value signal that guides which node to expand next.
+ *
+ * Flow:
+ * 1. Initialize (the root node)
+ * 2. Loop:
+ *    a. Select: descend from the root with the selection policy until a
+ *       node has fewer than `maxChildren` children
+ *    b. Expand: act on the node's state, evaluate, and transition into a new child
+ *    c. Backpropagate the score to the child and its ancestors
+ * 3. Finalize the highest-scoring node
+ */
+
+import type {
+  TreeSearchConfig,
+  TreeNode,
+  ExpandedNode,
+  TreeSearchResult,
+  CompletedIteration,
+  IterationSnapshot,
+  IterationOptions,
+  RunOptions,
+} from './types.js';
+import { raceSignal, resolveAction } from './utils.js';
+import { ConfigurationError } from './errors.js';
+import { SearchProcessor, resolveSearchConfig } from './search.js';
+import type { ResolvedSearchConfig, Search, SearchRun } from './search.js';
+
+type ResolvedTreeConfig = ResolvedSearchConfig &
+  Required<Pick<TreeSearchConfig, 'selection' | 'maxChildren' | 'exploration' | 'epsilon' | 'random'>>;
+
+type TreeExtra<State, ActionData> = Pick<TreeSearchResult<unknown, ActionData, State>, 'tree' | 'nodes'>;
+
+/**
+ * Tree search over the `initialize/act/evaluate/transition` contract
+ *
+ * @example
+ * ```typescript
+ * const search = createTreeSearch(options, { selection: 'ucb', maxChildren: 3, maxIterations: 30 });
+ * const result = await search.run(goal);
+ * console.log(JSON.stringify(result.tree));
+ * ```
+ */
+export class TreeSearchProcessor<Input, State, ActionData, Result> extends SearchProcessor<
+  Input,
+  State,
+  ActionData,
+  Result,
+  TreeExtra<State, ActionData>,
+  ResolvedTreeConfig
+> {
+  constructor(options: IterationOptions<Input, State, ActionData, Result>, config: TreeSearchConfig = {}) {
+    super(
+      options,
+      {
+        ...resolveSearchConfig(config, 20),
+        selection: config.selection ?? 'ucb',
+        maxChildren: config.maxChildren ?? 3,
+        exploration: config.exploration ?? Math.SQRT2,
+        epsilon: config.epsilon ?? 0.1,
+        random: config.random ?? Math.random,
+      },
+      'tree',
+      'Tree search'
+    );
+
+    const { maxChildren, epsilon } = this.config;
+    if (!Number.isInteger(maxChildren) || maxChildren < 1) {
+      throw new ConfigurationError(`Invalid configuration: maxChildren (${maxChildren}) must be a positive integer`);
+    }
+    if (epsilon < 0 || epsilon > 1) {
+      throw new ConfigurationError(`Invalid configuration: epsilon (${epsilon}) must be between 0 and 1`);
+    }
+  }
+
+  /**
+   * Run the tree search
+   *
+   * @param input - Input passed to `initialize`
+   * @param options - Per-run options such as an `AbortSignal`
+   */
+  run(input: Input, options: RunOptions = {}): Promise<TreeSearchResult<Result, ActionData, State>> {
+    return this.execute(input, options);
+  }
+
+  /**
+   * Initialize the root node
+   */
+  protected async start(
+    input: Input,
+    run: SearchRun
+  ): Promise<Search<State, ActionData, TreeExtra<State, ActionData>>> {
+    this.log('Starting tree search', {
+      selection: this.config.selection,
+      maxChildren: this.config.maxChildren,
+    });
+
+    const root: TreeNode<State, ActionData> = {
+      id: 0,
+      depth: 0,
+      state: await this.initializeState(input, run),
+      visits: 0,
+      totalScore: 0,
+      children: [],
+    };
+    const nodes = new Map<number, TreeNode<State, ActionData>>([[root.id, root]]);
+    let best: ExpandedNode<State, ActionData> | undefined;
+    let bestIteration: IterationSnapshot<State, ActionData> | undefined;
+
+    return {
+      step: async (i, remainingBudget) => {
+        const iterationStart = Date.now();
+
+        // 2a. Select
+        const path = this.select(root);
+        const parent = path[path.length - 1];
+        this.log(`Iteration ${i + 1}/${this.config.maxIterations} expanding node ${parent.id}`, {
+          depth: parent.depth,
+        });
+
+        // 2b. Expand
+        const context = this.createContext(run, i, parent.evaluation, remainingBudget);
+        const actionResult = await raceSignal(
+          this.runPhase('act', i, run, () =>
+            resolveAction(this.options.act(parent.state, context), (chunk, index) =>
+              this.emit({ type: 'action_chunk', iteration: i, index, chunk })
+            )
+          ),
+          run.signal
+        );
+        run.totalCost += actionResult.metadata?.cost ?? 0;
+        this.emit({ type: 'action_complete', iteration: i, result: actionResult });
+
+        const evaluation = await raceSignal(
+          this.runPhase('evaluate', i, run, () => this.options.evaluate(parent.state, actionResult, context)),
+          run.signal
+        );
+        this.emit({ type: 'evaluation_complete', iteration: i, evaluation });
+
+        const state = await raceSignal(
+          this.runPhase('transition', i, run, () =>
+            this.options.transition(parent.state, actionResult, evaluation, context)
+          ),
+          run.signal
+        );
+        this.emit({ type: 'transition_complete', iteration: i, state });
+
+        const child: ExpandedNode<State, ActionData> = {
+          id: nodes.size,
+          parentId: parent.id,
+          depth: parent.depth + 1,
+          iteration: i,
+          state,
+          actionResult,
+          evaluation,
+          visits: 0,
+          totalScore: 0,
+          children: [],
+          timestamp: Date.now(),
+          duration: Date.now() - iterationStart,
+        };
+        parent.children.push(child);
+        nodes.set(child.id, child);
+        run.iterations = i + 1;
+
+        // 2c. Backpropagate
+        for (const node of [...path, child]) {
+          node.visits++;
+          node.totalScore += evaluation.score;
+        }
+
+        if (!best || evaluation.score > best.evaluation.score) {
+          best = child;
+          bestIteration = { iteration: i, state: parent.state, actionResult, evaluation };
+        }
+        this.emit({
+          type: 'iteration_complete',
+          iteration: i,
+          history: this.toHistory(child),
+        });
+        this.log('Node expanded', { id: child.id, score: evaluation.score, bestScore: best.evaluation.score });
+
+        const shouldTerminate = this.checkTermination(
+          state,
+          evaluation,
+          context,
+          run.totalCost,
+          best.evaluation.score
+        );
+        return shouldTerminate.terminate ? { reason: shouldTerminate.reason, score: evaluation.score } : undefined;
+      },
+
+      // 3. Finalize the best node (the root when nothing was expanded)
+      summarize: () => {
+        const bestScore = best?.evaluation.score ?? 0;
+        return {
+          state: (best ?? root).state,
+          history: best ? this.pathTo(best, nodes).map((node) => this.toHistory(node)) : [],
+          finalScore: bestScore,
+          bestScore,
+          bestIteration,
+          score: best?.evaluation.score,
+          extra: { tree: root, nodes: nodes.size },
+        };
+      },
+    };
+  }
+
+  /**
+   * Descend from the root to the next node to expand
+   *
+   * Returns the path from the root to that node.
+   */
+  private select(root: TreeNode<State, ActionData>): TreeNode<State, ActionData>[] {
+    const path = [root];
+    let node = root;
+    while (node.children.length >= this.config.maxChildren) {
+      node = this.chooseChild(node);
+      path.push(node);
+    }
+    return path;
+  }
+
+  /**
+   * Pick a child of a fully expanded node with the selection policy
+   *
+   * Ties go to the earlier child.
+   */
+  private chooseChild(parent: TreeNode<State, ActionData>): ExpandedNode<State, ActionData> {
+    const { children } = parent;
+    const { selection, exploration, epsilon, random } = this.config;
+
+    if (selection === 'epsilon-greedy' && random() < epsilon) {
+      return children[Math.min(Math.floor(random() * children.length), children.length - 1)];
+    }
+
+    // Scores are 0-100; UCB works on values in [0, 1]
+    const value = (child: ExpandedNode<State, ActionData>) => {
+      const mean = child.totalScore / child.visits / 100;
+      if (selection !== 'ucb') return mean;
+      return mean + exploration * Math.sqrt(Math.log(parent.visits) / child.visits);
+    };
+
+    return children.reduce((best, child) => (value(child) > value(best) ? child : best));
+  }
+
+  /**
+   * Nodes from the first expansion down to `node` (the root is left out)
+   */
+  private pathTo(
+    node: ExpandedNode<State, ActionData>,
+    nodes: Map<number, TreeNode<State, ActionData>>
+  ): ExpandedNode<State, ActionData>[] {
+    const path: ExpandedNode<State, ActionData>[] = [];
+    let current: TreeNode<State, ActionData> | undefined = node;
+    while (current && isExpanded(current)) {
+      path.unshift(current);
+      current = nodes.get(current.parentId);
+    }
+    return path;
+  }
+
+  /**
+   * History entry for an expanded node
+   */
+  private toHistory(node: ExpandedNode<State, ActionData>): CompletedIteration<ActionData> {
+    return {
+      iteration: node.iteration,
+      actionResult: node.actionResult,
+      evaluation: node.evaluation,
+      timestamp: node.timestamp,
+      duration: node.duration,
+    };
+  }
+}
+
+/**
+ * Factory function for creating a TreeSearchProcessor
+ */
+export function createTreeSearch<Input, State, ActionData, Result>(
+  options: IterationOptions<Input, State, ActionData, Result>,
+  config?: TreeSearchConfig
+): TreeSearchProcessor<Input, State, ActionData, Result> {
+  return new TreeSearchProcessor(options, config);
+}
+
+/**
+ * Whether a node was created by an expansion, i.e. is not the root
+ */
+function isExpanded<State, ActionData>(node: TreeNode<State, ActionData>): node is ExpandedNode<State, ActionData> {
+  return node.parentId !== undefined;
+}
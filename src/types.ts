@@ -5,6 +5,9 @@
  * Inspired by Scrum iterations and OODA loops.
  */
 
+import type { RateLimiter } from './utils.js';
+import type { PhaseError } from './errors.js';
+
 /**
  * Evaluation result from assessing current state
  * (Similar to Sprint Review in Scrum)
@@ -37,11 +40,89 @@ export interface ActionResult<T> {
     cost?: number;
     /** Time taken in milliseconds */
     latency?: number;
+    /** Tokens used, debited from the `rateLimiter` token budget */
+    tokens?: number;
     /** Any warnings or notes */
     warnings?: string[];
   };
 }
 
+/**
+ * Streaming output of an action
+ *
+ * Yields partial output (e.g. tokens from a streaming LLM API) and returns
+ * the final `ActionResult`. Usually written as an `async function*`.
+ */
+export type ActionStream<ActionData, Chunk = unknown> = AsyncGenerator<Chunk, ActionResult<ActionData>, undefined>;
+
+/**
+ * Partial output yielded by a streaming action
+ */
+export interface ActionChunk<State, Chunk = unknown> {
+  /** Iteration number (0-based) */
+  iteration: number;
+  /** Position of the chunk within the action (0-based, restarts on retry) */
+  index: number;
+  /** Candidate the chunk belongs to (when `candidates` > 1) */
+  candidate?: number;
+  /** The yielded chunk */
+  chunk: Chunk;
+  /** State the action runs on */
+  state: State;
+  /** Context the action runs with */
+  context: IterationContext;
+}
+
+/**
+ * Loop phases that run once per iteration
+ */
+export type IterationPhase = 'act' | 'evaluate' | 'transition';
+
+/**
+ * Every phase of a run, including the ones before and after the loop
+ *
+ * `crossover` only runs in evolutionary search.
+ */
+export type LoopPhase = 'initialize' | IterationPhase | 'crossover' | 'finalize';
+
+/**
+ * Retry policy for a single phase (exponential backoff)
+ */
+export interface PhaseRetryPolicy {
+  /** Maximum number of retries after the first attempt (default: 3) */
+  maxRetries?: number;
+  /** Delay before the first retry in milliseconds (default: 1000) */
+  initialDelay?: number;
+  /** Upper bound for the delay in milliseconds (default: 10000) */
+  maxDelay?: number;
+  /** Multiplier applied to the delay after each retry (default: 2) */
+  backoffFactor?: number;
+}
+
+/**
+ * Timeout and retry settings for a single phase
+ */
+export interface PhasePolicy {
+  /** Timeout for each attempt in milliseconds; the attempt's signal is aborted when it expires */
+  timeout?: number;
+  /** Retry failed (or timed out) attempts with backoff */
+  retry?: PhaseRetryPolicy;
+}
+
+/**
+ * Record of a retried phase attempt
+ */
+export interface PhaseRetry {
+  /** Phase that failed */
+  phase: IterationPhase;
+  /** Retry number (1 for the first retry) */
+  attempt: number;
+  /** Message of the error that triggered the retry */
+  error: string;
+  /** Delay before the retry in milliseconds */
+  delay: number;
+}
+
 /**
  * Configuration for the iteration loop
  */
@@ -61,7 +142,13 @@ export interface IterationConfig {
    * savings over minimum iterations.
    */
   minIterations?: number;
-  /** Overall timeout in milliseconds */
+  /**
+   * Overall timeout in milliseconds
+   *
+   * This is a hard deadline: the phase in flight is abandoned and its
+   * `context.signal` aborted, then `finalize` runs with the history
+   * collected so far and the result reports `terminationReason: 'timeout'`.
+   */
   timeout?: number;
   /** Whether to run in verbose mode */
   verbose?: boolean;
@@ -79,6 +166,82 @@ export interface IterationConfig {
    * prioritizing cost savings over iteration count.
    */
   skipMinIterations?: boolean;
+  /**
+   * Cost budget for the whole run, in the unit of `ActionResult.metadata.cost`
+   *
+   * The loop stops with `terminationReason: 'budget_exhausted'` after the
+   * iteration whose cost brings the running total to the budget.
+   */
+  maxCost?: number;
+  /**
+   * Cost cap for a single iteration
+   *
+   * The loop stops with `'budget_exhausted'` when an iteration costs more
+   * than this, or when the remaining `maxCost` cannot cover another iteration.
+   */
+  maxCostPerIteration?: number;
+  /**
+   * Stop with `terminationReason: 'plateau'` when the score stalls
+   *
+   * The loop ends once the score has not improved by at least `minDelta`
+   * (default: 1) over the last `window` iterations.
+   */
+  plateau?: {
+    window: number;
+    minDelta?: number;
+  };
+  /**
+   * Roll back transitions that lower the score (default: false)
+   *
+   * When an iteration scores worse than the one whose transition produced
+   * the current state, that state is discarded: the loop returns to the
+   * state before the transition and acts on it again, with the regressed
+   * evaluation available as `context.previousEvaluation`.
+   *
+   * The state before the transition is copied through `serializer` when one
+   * is set; without one, `transition` must return a new state object
+   * instead of mutating its input.
+   */
+  rollbackOnRegression?: boolean;
+  /** Maximum number of rollbacks per run (default: 3) */
+  maxRollbacks?: number;
+  /**
+   * Number of candidates per iteration (default: 1)
+   *
+   * Each iteration runs `act` and `evaluate` for every candidate
+   * concurrently and carries only the highest-scoring one into
+   * `transition`. The cost of all candidates counts toward the iteration.
+   */
+  candidates?: number;
+  /**
+   * Which state `finalize` receives (default: 'last')
+   *
+   * - `'last'`: the state after the final iteration
+   * - `'best'`: the state of the highest-scoring iteration
+   *   (see `IterationResult.bestIteration`); like `rollbackOnRegression`,
+   *   this needs a `serializer` or a `transition` that returns a new state
+   */
+  finalizeFrom?: 'last' | 'best';
+  /**
+   * Per-phase timeout and retry policies
+   *
+   * @example
+   * ```typescript
+   * phases: {
+   *   act: { timeout: 30000, retry: { maxRetries: 2, initialDelay: 500 } },
+   *   evaluate: { timeout: 5000 },
+   * }
+   * ```
+   */
+  phases?: Partial<Record<IterationPhase, PhasePolicy>>;
+  /**
+   * Rate limiter gating every `act` and `evaluate` call
+   *
+   * Share one `RateLimiter` between processors (or concurrent runs of one
+   * processor) to keep them all under the provider's limits together.
+   * Tokens reported in `ActionResult.metadata.tokens` are debited after `act`.
+   */
+  rateLimiter?: RateLimiter;
   /** Custom logger for errors and events */
   logger?: {
     error: (message: string, error: unknown) => void;
@@ -89,9 +252,19 @@ export interface IterationConfig {
 /**
  * Required configuration with defaults applied
  */
-export type ResolvedConfig = Required<Omit<IterationConfig, 'timeout' | 'logger'>> & {
+export type ResolvedConfig = Required<
+  Omit<
+    IterationConfig,
+    'timeout' | 'logger' | 'phases' | 'maxCost' | 'maxCostPerIteration' | 'plateau' | 'rateLimiter'
+  >
+> & {
   timeout?: number;
+  plateau?: IterationConfig['plateau'];
+  maxCost?: number;
+  maxCostPerIteration?: number;
   logger?: IterationConfig['logger'];
+  phases?: IterationConfig['phases'];
+  rateLimiter?: RateLimiter;
 };
 
 /**
@@ -106,44 +279,591 @@ export interface IterationContext {
   elapsedTime: number;
   /** Previous evaluation (undefined for first iteration) */
   previousEvaluation?: Evaluation;
+  /** Budget left before `maxCost` is reached (undefined without `maxCost`) */
+  remainingBudget?: number;
+  /** Signal that aborts when the run is cancelled or times out */
+  signal?: AbortSignal;
 }
 
 /**
- * History entry for a single iteration
+ * Per-run options for `IterationProcessor.run`
+ */
+export interface RunOptions {
+  /**
+   * Cancels the run when aborted.
+   *
+   * The signal is passed to `act`, `evaluate` and `transition` through
+   * `IterationContext.signal`, and the phase in flight is abandoned as soon
+   * as it fires. `finalize` still runs with the history collected so far.
+   */
+  signal?: AbortSignal;
+  /**
+   * Save a checkpoint to `store` under `id` after every iteration,
+   * so the loop can later continue with `IterationProcessor.resume`
+   */
+  checkpoint?: {
+    store: CheckpointStore;
+    id: string;
+  };
+  /**
+   * Receives the events of this run only, alongside the processor's
+   * listeners; unlike `processor.on`, it never sees events of other runs
+   */
+  onEvent?: IterationEventListener;
+}
+
+/**
+ * JSON-safe record of a phase failure that `onIterationError` chose to skip
+ */
+export interface IterationFailure {
+  /** Phase that failed */
+  phase: IterationPhase;
+  /** Message of the `PhaseError` */
+  message: string;
+  /** Iteration the phase ran in (0-based) */
+  iteration: number;
+  /** Milliseconds since the run started when the phase failed */
+  elapsed?: number;
+}
+
+/**
+ * Fields shared by every history entry
  */
-export interface IterationHistory<ActionData> {
+interface IterationRecord<ActionData> {
   /** Iteration number (0-based) */
   iteration: number;
-  /** Result from the action phase */
-  actionResult: ActionResult<ActionData>;
-  /** Evaluation after this iteration */
-  evaluation: Evaluation;
   /** Timestamp when this iteration completed */
   timestamp: number;
   /** Duration of this iteration in milliseconds */
   duration: number;
+  /** Phase retries during this iteration */
+  retries?: PhaseRetry[];
+  /** Candidates dropped because `onIterationError` skipped them (when `candidates` > 1) */
+  skippedCandidates?: SkippedCandidate<ActionData>[];
+}
+
+/**
+ * History entry of an iteration that acted and was evaluated
+ */
+export interface CompletedIteration<ActionData> extends IterationRecord<ActionData> {
+  skipped?: false;
+  /** Result from the action phase */
+  actionResult: ActionResult<ActionData>;
+  /** Evaluation after this iteration */
+  evaluation: Evaluation;
+  /** Whether the state was rolled back because this iteration regressed */
+  rolledBack?: boolean;
+  /** Candidates that lost to the selected one (when `candidates` > 1) */
+  candidates?: IterationCandidate<ActionData>[];
+  /** Failure of the transition, which `onIterationError` chose to skip */
+  error?: IterationFailure;
+}
+
+/**
+ * History entry of an iteration skipped by `onIterationError`
+ *
+ * The state is left unchanged. A skipped iteration has no evaluation, so
+ * score helpers such as `calculateAverageScore` and the plateau check
+ * ignore it.
+ * With several candidates, an iteration is skipped only when every
+ * candidate was; `actionResult` and `error` belong to the first of them
+ * and the others are in `skippedCandidates`.
+ */
+export interface SkippedIteration<ActionData> extends IterationRecord<ActionData> {
+  skipped: true;
+  /** Result from the action phase, when a later phase failed */
+  actionResult?: ActionResult<ActionData>;
+  /** Never set: a skipped iteration was not evaluated */
+  evaluation?: undefined;
+  /** Failure that was skipped */
+  error: IterationFailure;
+}
+
+/**
+ * History entry for a single iteration
+ *
+ * Narrow on `skipped` to tell completed iterations from skipped ones.
+ */
+export type IterationHistory<ActionData> = CompletedIteration<ActionData> | SkippedIteration<ActionData>;
+
+/**
+ * A candidate that `onIterationError` skipped
+ */
+export interface SkippedCandidate<ActionData> {
+  /** Candidate number within the iteration (0-based) */
+  candidate: number;
+  /** Result from the candidate's action, when `evaluate` failed */
+  actionResult?: ActionResult<ActionData>;
+  /** Failure that was skipped */
+  error: IterationFailure;
+}
+
+/**
+ * One candidate's action and evaluation within an iteration
+ */
+export interface IterationCandidate<ActionData> {
+  /** Candidate number within the iteration (0-based) */
+  candidate: number;
+  /** Result from the candidate's action */
+  actionResult: ActionResult<ActionData>;
+  /** Evaluation of the candidate */
+  evaluation: Evaluation;
+}
+
+/**
+ * Snapshot of a single iteration's inputs and outcome
+ */
+export interface IterationSnapshot<State, ActionData> {
+  /** Iteration number (0-based) */
+  iteration: number;
+  /** State the iteration acted on */
+  state: State;
+  /** Result from the action phase */
+  actionResult: ActionResult<ActionData>;
+  /** Evaluation of the iteration */
+  evaluation: Evaluation;
 }
 
+/**
+ * Data needed to continue a finished run with `IterationProcessor.continue`
+ */
+export interface IterationContinuation<State> {
+  /** Loop state when the run stopped */
+  state: State;
+  /** Index of the next iteration to run */
+  iteration: number;
+  /** Whether the last iteration's transition was skipped and must run before continuing */
+  pendingTransition: boolean;
+  /** State before the last transition, and the score that justified it */
+  rollbackPoint?: { state: State; score: number };
+  /** Number of rollbacks so far */
+  rollbacks: number;
+}
+
+/**
+ * Options for `IterationProcessor.continue`
+ */
+export interface ContinueOptions extends RunOptions {
+  /** Number of iterations to run on top of the previous ones */
+  extraIterations: number;
+}
+
+/**
+ * Outcome of one completed iteration
+ */
+export interface IterationStep<State, ActionData> {
+  /** Iteration number (0-based) */
+  iteration: number;
+  /** Result from the action phase; unset when the iteration was skipped before `act` completed */
+  actionResult?: ActionResult<ActionData>;
+  /** Evaluation of the iteration; unset when the iteration was skipped */
+  evaluation?: Evaluation;
+  /** State after the iteration (after transition or rollback, if any) */
+  state: State;
+  /** History entry recorded for the iteration */
+  history: IterationHistory<ActionData>;
+  /** Context the iteration ran with */
+  context: IterationContext;
+}
+
+/**
+ * Item yielded by `IterationProcessor.iterate`
+ */
+export type IterationUpdate<State, ActionData, Result> =
+  | ({ type: 'chunk' } & ActionChunk<State>)
+  | ({ type: 'iteration' } & IterationStep<State, ActionData>)
+  | { type: 'complete'; result: IterationResult<Result, ActionData, State> };
+
+/**
+ * Why the iteration loop stopped
+ */
+export type TerminationReason =
+  | 'converged'
+  | 'early_stop'
+  | 'max_iterations'
+  | 'timeout'
+  | 'manual_stop'
+  | 'cancelled'
+  | 'budget_exhausted'
+  | 'plateau'
+  | 'circuit_open';
+
+/**
+ * What `onIterationError` does about a failed phase
+ */
+export type IterationErrorDecision<ActionData> =
+  | 'skip'
+  | 'retry'
+  | 'abort'
+  | ActionResult<ActionData>
+  | Evaluation;
+
 /**
  * Final result from the iteration loop
  */
-export interface IterationResult<Result, ActionData> {
+export interface IterationResult<Result, ActionData, State = unknown> {
   /** The final computed result */
   result: Result;
   /** Number of iterations executed */
   iterations: number;
   /** Final convergence score */
   finalScore: number;
+  /** Highest score seen across all iterations */
+  bestScore: number;
+  /** The highest-scoring iteration (first one on ties) */
+  bestIteration?: IterationSnapshot<State, ActionData>;
   /** Whether the loop converged (vs hit max iterations) */
   converged: boolean;
   /** Reason for termination */
-  terminationReason: 'converged' | 'early_stop' | 'max_iterations' | 'timeout' | 'manual_stop';
+  terminationReason: TerminationReason;
   /** Total cost across all iterations */
   totalCost: number;
   /** Total time in milliseconds */
   totalLatency: number;
   /** History of all iterations */
   history: IterationHistory<ActionData>[];
+  /** Loop progress for `IterationProcessor.continue` (absent when the run failed) */
+  continuation?: IterationContinuation<State>;
+}
+
+/**
+ * Options for `IterationProcessor.runMany`
+ */
+export interface RunManyOptions {
+  /** Maximum number of runs in flight (default: 4) */
+  concurrency?: number;
+  /**
+   * Stop the batch after the first failed run (default: false)
+   *
+   * Runs in flight are cancelled and runs not yet started are skipped.
+   */
+  stopOnError?: boolean;
+  /** Cancels the runs in flight and skips the rest when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Outcome of one input in a batch
+ */
+export type BatchItem<Input, Result, ActionData, State = unknown> =
+  | { index: number; input: Input; status: 'fulfilled'; result: IterationResult<Result, ActionData, State> }
+  | { index: number; input: Input; status: 'rejected'; error: Error }
+  | { index: number; input: Input; status: 'skipped' };
+
+/**
+ * Aggregate statistics of a batch
+ */
+export interface BatchStats {
+  /** Number of inputs */
+  total: number;
+  /** Runs that returned a result */
+  succeeded: number;
+  /** Runs that threw */
+  failed: number;
+  /** Inputs never run because the batch stopped */
+  skipped: number;
+  /** Average `finalScore` of the successful runs (0 when there are none) */
+  averageFinalScore: number;
+  /** Number of successful runs per termination reason */
+  terminationReasons: Partial<Record<TerminationReason, number>>;
+  /** Total cost of the successful runs */
+  totalCost: number;
+  /** Wall-clock time of the whole batch in milliseconds */
+  totalLatency: number;
+}
+
+/**
+ * Result from `IterationProcessor.runMany`
+ */
+export interface BatchResult<Input, Result, ActionData, State = unknown> {
+  /** One item per input, in input order */
+  items: BatchItem<Input, Result, ActionData, State>[];
+  /** Aggregate statistics */
+  stats: BatchStats;
+}
+
+/**
+ * Serialized progress of a running loop
+ *
+ * Checkpoints are plain JSON. State goes through the loop's
+ * `serializer` when one is set; action data must be JSON-safe.
+ */
+export interface IterationCheckpoint<ActionData = unknown> {
+  /** Checkpoint format version */
+  version: 1;
+  /** Configuration the loop runs with (the logger and rate limiter are not persisted) */
+  config: Omit<ResolvedConfig, 'logger' | 'rateLimiter'>;
+  /** Serialized current state */
+  state: unknown;
+  /** History of completed iterations */
+  history: IterationHistory<ActionData>[];
+  /** Index of the next iteration to run */
+  iteration: number;
+  /** Evaluation of the last completed iteration */
+  lastEvaluation?: Evaluation;
+  /** Cost accumulated so far */
+  totalCost: number;
+  /** Time spent in the loop so far in milliseconds */
+  elapsedTime: number;
+  /** Highest-scoring iteration so far, with serialized state */
+  best?: IterationSnapshot<unknown, ActionData>;
+  /** Rollback target, with serialized state */
+  rollbackPoint?: { state: unknown; score: number };
+  /** Number of rollbacks so far */
+  rollbacks: number;
+  /** Whether the last iteration's transition was skipped and must run before continuing */
+  pendingTransition?: boolean;
+  /** When the checkpoint was taken */
+  timestamp: number;
+}
+
+/**
+ * Storage backend for checkpoints
+ */
+export interface CheckpointStore {
+  /** Save (or overwrite) the checkpoint for `id` */
+  save(id: string, checkpoint: IterationCheckpoint): Promise<void>;
+  /** Load the checkpoint for `id`, or undefined if there is none */
+  load(id: string): Promise<IterationCheckpoint | undefined>;
+  /** Remove the checkpoint for `id` */
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * Converts state that is not JSON-safe to and from checkpoint data
+ */
+export interface StateSerializer<State> {
+  serialize: (state: State) => unknown;
+  deserialize: (data: unknown) => State;
+}
+
+/**
+ * Configuration for beam search
+ *
+ * Shares the termination settings of `IterationConfig`.
+ */
+export interface BeamSearchConfig
+  extends Pick<
+    IterationConfig,
+    | 'maxIterations'
+    | 'targetScore'
+    | 'earlyStopScore'
+    | 'minIterations'
+    | 'timeout'
+    | 'maxCost'
+    | 'alwaysRunTransition'
+    | 'verbose'
+    | 'logger'
+  > {
+  /** Number of states kept after each iteration (default: 3) */
+  beamWidth?: number;
+  /** Number of `act` calls per state in the beam (default: 1) */
+  branchingFactor?: number;
+}
+
+/**
+ * A state expanded by one action during beam search
+ */
+export interface BeamNode<State, ActionData> {
+  /** Node number, unique within the run */
+  id: number;
+  /** Node whose transition produced `state` (absent for the initial state) */
+  parentId?: number;
+  /** Iteration number (0-based) */
+  iteration: number;
+  /** State the action ran on */
+  state: State;
+  /** Result from the action phase */
+  actionResult: ActionResult<ActionData>;
+  /** Evaluation of the action */
+  evaluation: Evaluation;
+  /** Timestamp when the node was scored */
+  timestamp: number;
+  /** Duration of the node's act and evaluate phases in milliseconds */
+  duration: number;
+}
+
+/**
+ * Final result from beam search
+ *
+ * `history` and `lineage` follow the winning path only; `totalCost`
+ * covers every expanded node.
+ */
+export interface BeamSearchResult<Result, ActionData, State = unknown>
+  extends Omit<IterationResult<Result, ActionData, State>, 'continuation' | 'history'> {
+  /** Winning path, one entry per iteration; never skipped */
+  history: CompletedIteration<ActionData>[];
+  /** Chain of nodes from the first iteration to the winning node */
+  lineage: BeamNode<State, ActionData>[];
+  /** Number of nodes expanded across all iterations */
+  expanded: number;
+}
+
+/**
+ * How tree search picks the child to descend into
+ *
+ * - `'ucb'`: highest upper confidence bound (UCB1), balancing mean score
+ *   against how rarely a child was visited
+ * - `'greedy'`: highest mean score
+ * - `'epsilon-greedy'`: a random child with probability `epsilon`, otherwise greedy
+ */
+export type SelectionPolicy = 'ucb' | 'greedy' | 'epsilon-greedy';
+
+/**
+ * Configuration for tree search
+ *
+ * Each iteration expands one node, so `maxIterations` bounds the tree size.
+ */
+export interface TreeSearchConfig
+  extends Pick<
+    IterationConfig,
+    | 'maxIterations'
+    | 'targetScore'
+    | 'earlyStopScore'
+    | 'minIterations'
+    | 'timeout'
+    | 'maxCost'
+    | 'verbose'
+    | 'logger'
+  > {
+  /** Selection policy (default: 'ucb') */
+  selection?: SelectionPolicy;
+  /** Children a node gets before selection descends past it (default: 3) */
+  maxChildren?: number;
+  /** UCB exploration constant (default: Math.SQRT2) */
+  exploration?: number;
+  /** Probability of a random choice for 'epsilon-greedy' (default: 0.1) */
+  epsilon?: number;
+  /** Random number source in [0, 1) (default: Math.random) */
+  random?: () => number;
+}
+
+/**
+ * A node of the search tree: a state produced by `transition`
+ *
+ * The tree is a plain nested object, so it can be exported as JSON when
+ * the state is JSON-safe.
+ */
+export interface TreeNode<State, ActionData> {
+  /** Node number, unique within the run (the root is 0) */
+  id: number;
+  /** Parent node (absent for the root) */
+  parentId?: number;
+  /** Distance from the root */
+  depth: number;
+  /** Iteration that created the node (absent for the root) */
+  iteration?: number;
+  /** State of the node (`initialize` output for the root, `transition` output otherwise) */
+  state: State;
+  /** Action taken on the parent's state (absent for the root) */
+  actionResult?: ActionResult<ActionData>;
+  /** Evaluation of that action (absent for the root) */
+  evaluation?: Evaluation;
+  /** Number of evaluations backpropagated through the node */
+  visits: number;
+  /** Sum of the scores backpropagated through the node */
+  totalScore: number;
+  /** Expanded children, in creation order */
+  children: ExpandedNode<State, ActionData>[];
+}
+
+/**
+ * A tree node created by expanding its parent: every node but the root
+ */
+export interface ExpandedNode<State, ActionData> extends TreeNode<State, ActionData> {
+  parentId: number;
+  iteration: number;
+  actionResult: ActionResult<ActionData>;
+  evaluation: Evaluation;
+  /** Timestamp when the node was created */
+  timestamp: number;
+  /** Duration of the expansion in milliseconds */
+  duration: number;
+}
+
+/**
+ * Final result from tree search
+ *
+ * `finalize` receives the state of the highest-scoring node; `history`
+ * follows the path from the root to that node.
+ */
+export interface TreeSearchResult<Result, ActionData, State = unknown>
+  extends Omit<IterationResult<Result, ActionData, State>, 'continuation' | 'history'> {
+  /** Path from the root to the highest-scoring node; never skipped */
+  history: CompletedIteration<ActionData>[];
+  /** Root of the explored tree */
+  tree: TreeNode<State, ActionData>;
+  /** Number of nodes in the tree, including the root */
+  nodes: number;
+}
+
+/**
+ * Configuration for evolutionary search
+ *
+ * Each iteration is one generation.
+ */
+export interface EvolutionConfig
+  extends Pick<
+    IterationConfig,
+    | 'maxIterations'
+    | 'targetScore'
+    | 'earlyStopScore'
+    | 'minIterations'
+    | 'timeout'
+    | 'maxCost'
+    | 'verbose'
+    | 'logger'
+  > {
+  /** Number of members per generation (default: 8) */
+  populationSize?: number;
+  /** Top members carried into the next generation unchanged (default: 1) */
+  elitism?: number;
+  /** Members compared per parent selection (default: 3) */
+  tournamentSize?: number;
+  /** Random number source in [0, 1) (default: Math.random) */
+  random?: () => number;
+}
+
+/**
+ * Options for evolutionary search
+ *
+ * `initialize` is called once per member to seed the population, and
+ * `transition` mutates each child produced by `crossover`.
+ */
+export interface EvolutionOptions<Input, State, ActionData, Result>
+  extends IterationOptions<Input, State, ActionData, Result> {
+  /**
+   * Combine two parents into a new member
+   */
+  crossover: (a: State, b: State, context: IterationContext) => Promise<State>;
+}
+
+/**
+ * A scored member of the population
+ */
+export interface EvolutionMember<State, ActionData> {
+  /** Generation the member was scored in (0-based) */
+  generation: number;
+  /** The member's state */
+  state: State;
+  /** Result from acting on the state */
+  actionResult: ActionResult<ActionData>;
+  /** Evaluation of the action, used as fitness */
+  evaluation: Evaluation;
+}
+
+/**
+ * Final result from evolutionary search
+ *
+ * `finalize` receives the state of the fittest member seen; `history`
+ * holds the fittest member of each generation.
+ */
+export interface EvolutionResult<Result, ActionData, State = unknown>
+  extends Omit<IterationResult<Result, ActionData, State>, 'continuation' | 'history'> {
+  /** Fittest member of each generation; never skipped */
+  history: CompletedIteration<ActionData>[];
+  /** Last scored generation, fittest first */
+  population: EvolutionMember<State, ActionData>[];
 }
 
 /**
@@ -159,14 +879,27 @@ export interface IterationOptions<Input, State, ActionData, Result> {
   /**
    * Initialize state from input
    * (Sprint Planning)
+   *
+   * `signal` aborts when the run is cancelled or its `timeout` passes. The
+   * run still waits for `initialize`, then stops with `'cancelled'` or
+   * `'timeout'` and finalizes the initial state. If `initialize` rejects
+   * instead, there is no state to finalize and the run ends through
+   * `onError` or rejects with the signal's reason.
    */
-  initialize: (input: Input) => Promise<State>;
+  initialize: (input: Input, signal: AbortSignal) => Promise<State>;
 
   /**
    * Execute an action based on current state
    * (Sprint Execution)
+   *
+   * May also return an `ActionStream` that yields partial output before
+   * returning the `ActionResult`; each chunk is emitted as an
+   * `'action_chunk'` event.
    */
-  act: (state: State, context: IterationContext) => Promise<ActionResult<ActionData>>;
+  act: (
+    state: State,
+    context: IterationContext
+  ) => Promise<ActionResult<ActionData>> | ActionStream<ActionData>;
 
   /**
    * Evaluate the current state after action
@@ -225,9 +958,40 @@ export interface IterationOptions<Input, State, ActionData, Result> {
     context: IterationContext
   ) => boolean;
 
+  /**
+   * Optional: Converts state for checkpoints
+   * Needed when state is not JSON-safe (Map, Date, class instances, ...).
+   * Also used to copy the state kept for rollback and `bestIteration`.
+   */
+  serializer?: StateSerializer<State>;
+
+  /**
+   * Optional: Called when `act`, `evaluate` or `transition` fails
+   *
+   * Decides what the loop does about the failed phase:
+   * - `'skip'`: record the iteration with its `error` and continue from the
+   *   same state; with several candidates, only drop the failed candidate
+   * - `'retry'`: run the phase again, up to the phase's `maxRetries`
+   *   (default 3) times per iteration; further retries count as `'abort'`
+   * - an `ActionResult` (when `act` failed) or `Evaluation` (when `evaluate`
+   *   failed): use it as the phase's result
+   * - `'abort'`: end the run through `onError` as without this hook
+   *
+   * A replacement that does not fit the failed phase counts as `'abort'`.
+   * Skipped iterations count toward `maxIterations`; retries do not.
+   */
+  onIterationError?: (
+    error: PhaseError,
+    state: State,
+    context: IterationContext
+  ) => IterationErrorDecision<ActionData> | Promise<IterationErrorDecision<ActionData>>;
+
   /**
    * Optional: Called when an error occurs
    * Return a fallback result or re-throw
+   *
+   * A failed phase arrives as a `PhaseError` naming the phase and
+   * iteration, with the original error as `cause`.
    */
   onError?: (
     error: Error,
@@ -242,12 +1006,19 @@ export interface IterationOptions<Input, State, ActionData, Result> {
 export type IterationEvent<Input = unknown, State = unknown, ActionData = unknown, Result = unknown> =
   | { type: 'start'; input: Input }
   | { type: 'iteration_start'; iteration: number }
-  | { type: 'action_complete'; iteration: number; result: ActionResult<ActionData> }
-  | { type: 'evaluation_complete'; iteration: number; evaluation: Evaluation }
+  | { type: 'action_chunk'; iteration: number; index: number; chunk: unknown; candidate?: number }
+  | { type: 'action_complete'; iteration: number; result: ActionResult<ActionData>; candidate?: number }
+  | { type: 'evaluation_complete'; iteration: number; evaluation: Evaluation; candidate?: number }
   | { type: 'transition_complete'; iteration: number; state: State }
   | { type: 'iteration_complete'; iteration: number; history: IterationHistory<ActionData> }
+  | { type: 'retry'; iteration: number; phase: IterationPhase; attempt: number; error: Error; delay: number }
+  | { type: 'iteration_error'; iteration: number; error: PhaseError; recovery: 'skip' | 'retry' | 'replace' | 'abort' }
+  | { type: 'rollback'; iteration: number; score: number; previousScore: number; state: State }
+  | { type: 'checkpoint'; iteration: number; checkpoint: IterationCheckpoint<ActionData> }
+  | { type: 'resume'; iteration: number }
   | { type: 'converged'; iteration: number; score: number }
-  | { type: 'complete'; result: IterationResult<Result, ActionData> }
+  | { type: 'complete'; result: IterationResult<Result, ActionData, State> }
+  | { type: 'batch_progress'; index: number; completed: number; failed: number; total: number }
   | { type: 'error'; error: Error; iteration: number; state?: State };
 
 /**
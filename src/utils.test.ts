@@ -16,9 +16,13 @@ import {
   combineEvaluations,
   calculateScore,
   withRetry,
+  getRetryAfter,
   withTimeout,
   sleep,
+  RateLimiter,
+  createCircuitBreaker,
 } from './utils';
+import { CircuitOpenError, ConfigurationError, RetryExhaustedError, TimeoutError } from './errors';
 import { IterationHistory, ActionResult } from './types';
 
 describe('createEvaluation', () => {
@@ -97,6 +101,24 @@ describe('calculateTotalCost', () => {
     expect(calculateTotalCost(history)).toBe(0.03);
   });
 
+  it('should include the cost of losing candidates', () => {
+    const history: IterationHistory<unknown>[] = [
+      {
+        iteration: 0,
+        actionResult: { data: null, metadata: { cost: 0.01 } },
+        evaluation: createEvaluation(70),
+        timestamp: Date.now(),
+        duration: 100,
+        candidates: [
+          { candidate: 1, actionResult: { data: null, metadata: { cost: 0.02 } }, evaluation: createEvaluation(50) },
+          { candidate: 2, actionResult: { data: null }, evaluation: createEvaluation(40) },
+        ],
+      },
+    ];
+
+    expect(calculateTotalCost(history)).toBeCloseTo(0.03);
+  });
+
   it('should handle missing costs', () => {
     const history: IterationHistory<unknown>[] = [
       {
@@ -144,6 +166,28 @@ describe('calculateAverageScore', () => {
   it('should return 0 for empty history', () => {
     expect(calculateAverageScore([])).toBe(0);
   });
+
+  it('should ignore skipped iterations', () => {
+    const history: IterationHistory<unknown>[] = [
+      {
+        skipped: true,
+        iteration: 0,
+        timestamp: Date.now(),
+        duration: 100,
+        error: { phase: 'act', message: 'act failed', iteration: 0 },
+      },
+      {
+        iteration: 1,
+        actionResult: { data: null },
+        evaluation: createEvaluation(60),
+        timestamp: Date.now(),
+        duration: 100,
+      },
+    ];
+
+    expect(calculateAverageScore(history)).toBe(60);
+    expect(getScoreProgression(history)).toEqual([60]);
+  });
 });
 
 describe('getScoreProgression', () => {
@@ -219,6 +263,41 @@ describe('isImproving', () => {
     expect(isImproving(history)).toBe(false);
   });
 
+  it('should require minDelta gain when provided', () => {
+    const history: IterationHistory<unknown>[] = [60, 61, 62].map((score, i) => ({
+      iteration: i,
+      actionResult: { data: null },
+      evaluation: createEvaluation(score),
+      timestamp: Date.now(),
+      duration: 100,
+    }));
+
+    expect(isImproving(history, 3)).toBe(true);
+    expect(isImproving(history, 3, 2)).toBe(true);
+    expect(isImproving(history, 3, 5)).toBe(false);
+  });
+
+  it('should compare scores across skipped iterations', () => {
+    const scored = (iteration: number, score: number): IterationHistory<unknown> => ({
+      iteration,
+      actionResult: { data: null },
+      evaluation: createEvaluation(score),
+      timestamp: Date.now(),
+      duration: 100,
+    });
+    const skipped = (iteration: number): IterationHistory<unknown> => ({
+      skipped: true,
+      iteration,
+      timestamp: Date.now(),
+      duration: 100,
+      error: { phase: 'evaluate', message: 'evaluate failed', iteration },
+    });
+
+    expect(isImproving([scored(0, 40), skipped(1), skipped(2)], 2)).toBe(true);
+    expect(isImproving([scored(0, 40), skipped(1), scored(2, 60)], 2)).toBe(true);
+    expect(isImproving([scored(0, 60), skipped(1), scored(2, 40)], 2)).toBe(false);
+  });
+
   it('should return true for insufficient history', () => {
     expect(isImproving([])).toBe(true);
     expect(isImproving([{} as any])).toBe(true);
@@ -496,6 +575,244 @@ describe('withRetry', () => {
 
     expect(fn).toHaveBeenCalledTimes(3); // 1 initial + 2 retries
   });
+
+  it('should report every attempt once retries are exhausted', async () => {
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('first'))
+      .mockRejectedValueOnce(new Error('second'));
+
+    const error = await withRetry(fn, { maxRetries: 1, initialDelay: 1 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(RetryExhaustedError);
+    expect(error.message).toBe('Failed after 2 attempts: second');
+    expect(error.attempts).toBe(2);
+    expect(error.errors.map((e: Error) => e.message)).toEqual(['first', 'second']);
+    expect(error.cause.message).toBe('second');
+  });
+
+  it('should rethrow errors that shouldRetry rejects', async () => {
+    const badRequest = Object.assign(new Error('bad request'), { status: 400 });
+    const fn = vi.fn().mockRejectedValue(badRequest);
+    const shouldRetry = vi.fn((error: unknown) => (error as { status: number }).status >= 500);
+
+    await expect(withRetry(fn, { shouldRetry, initialDelay: 1 })).rejects.toBe(badRequest);
+
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(shouldRetry).toHaveBeenCalledWith(badRequest, 1);
+  });
+
+  it('should call onRetry with backoff delays', async () => {
+    const onRetry = vi.fn();
+    const fn = vi.fn().mockRejectedValue(new Error('down'));
+
+    await expect(
+      withRetry(fn, { maxRetries: 3, initialDelay: 1, backoffFactor: 3, maxDelay: 5, onRetry })
+    ).rejects.toThrow(RetryExhaustedError);
+
+    expect(onRetry.mock.calls.map(([, attempt, delay]) => [attempt, delay])).toEqual([
+      [1, 1],
+      [2, 3],
+      [3, 5],
+    ]);
+  });
+
+  it('should randomize delays with jitter', async () => {
+    const fn = vi.fn().mockRejectedValue(new Error('down'));
+    const full = vi.fn();
+    const decorrelated = vi.fn();
+
+    await withRetry(fn, { maxRetries: 2, initialDelay: 4, jitter: 'full', random: () => 0.5, onRetry: full }).catch(
+      () => {}
+    );
+    await withRetry(fn, {
+      maxRetries: 2,
+      initialDelay: 4,
+      jitter: 'decorrelated',
+      random: () => 0.5,
+      onRetry: decorrelated,
+    }).catch(() => {});
+
+    expect(full.mock.calls.map(([, , delay]) => delay)).toEqual([2, 4]);
+    // Halfway between initialDelay and three times the previous delay
+    expect(decorrelated.mock.calls.map(([, , delay]) => delay)).toEqual([8, 14]);
+  });
+
+  it('should wait as long as the error asks', async () => {
+    const onRetry = vi.fn();
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(Object.assign(new Error('rate limited'), { retryAfter: 20 }))
+      .mockResolvedValue('success');
+
+    await expect(withRetry(fn, { initialDelay: 1, onRetry })).resolves.toBe('success');
+
+    expect(onRetry.mock.calls[0][2]).toBe(20);
+  });
+
+  it('should stop when the signal aborts', async () => {
+    const controller = new AbortController();
+    const fn = vi.fn().mockRejectedValue(new Error('down'));
+    setTimeout(() => controller.abort(new Error('stopped')), 20);
+
+    await expect(withRetry(fn, { initialDelay: 1000, signal: controller.signal })).rejects.toThrow('stopped');
+
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should abort the attempt in progress when the signal aborts', async () => {
+    const controller = new AbortController();
+    let attemptSignal: AbortSignal | undefined;
+    const fn = vi.fn((signal: AbortSignal) => {
+      attemptSignal = signal;
+      return new Promise<string>((resolve) => setTimeout(() => resolve('late'), 1000));
+    });
+    setTimeout(() => controller.abort(new Error('stopped')), 20);
+
+    await expect(withRetry(fn, { signal: controller.signal })).rejects.toThrow('stopped');
+
+    expect(attemptSignal?.aborted).toBe(true);
+    expect(attemptSignal?.reason).toEqual(new Error('stopped'));
+  });
+});
+
+describe('getRetryAfter', () => {
+  it('should read a retryAfter property in milliseconds', () => {
+    expect(getRetryAfter(new CircuitOpenError(1500))).toBe(1500);
+  });
+
+  it('should read a Retry-After header in seconds', () => {
+    expect(getRetryAfter({ headers: { 'Retry-After': '2' } })).toBe(2000);
+    expect(getRetryAfter({ headers: new Headers({ 'retry-after': '0.5' }) })).toBe(500);
+  });
+
+  it('should read a Retry-After header with an HTTP date', () => {
+    const date = new Date(Date.now() + 60000).toUTCString();
+
+    const delay = getRetryAfter({ headers: { 'retry-after': date } });
+
+    expect(delay).toBeGreaterThan(58000);
+    expect(delay).toBeLessThanOrEqual(60000);
+  });
+
+  it('should return undefined without a usable hint', () => {
+    expect(getRetryAfter(new Error('plain'))).toBeUndefined();
+    expect(getRetryAfter({ headers: { 'retry-after': 'soon' } })).toBeUndefined();
+    expect(getRetryAfter('string error')).toBeUndefined();
+  });
+});
+
+describe('createCircuitBreaker', () => {
+  const fail = () => Promise.reject(new Error('service down'));
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should open after consecutive failures and fail fast', async () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 2, resetTimeout: 1000 });
+    const fn = vi.fn(fail);
+
+    await expect(breaker.execute(fn)).rejects.toThrow('service down');
+    expect(breaker.state).toBe('closed');
+    await expect(breaker.execute(fn)).rejects.toThrow('service down');
+    expect(breaker.state).toBe('open');
+
+    await vi.advanceTimersByTimeAsync(400);
+    const rejected = breaker.execute(fn);
+    await expect(rejected).rejects.toBeInstanceOf(CircuitOpenError);
+    await expect(rejected).rejects.toMatchObject({ retryAfter: 600 });
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reset the failure count on success', async () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 2 });
+
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await breaker.execute(async () => 'ok');
+    await expect(breaker.execute(fail)).rejects.toThrow();
+
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should close after a successful trial call', async () => {
+    const changes: string[] = [];
+    const breaker = createCircuitBreaker({
+      failureThreshold: 1,
+      resetTimeout: 1000,
+      onStateChange: (state, previous) => changes.push(`${previous}->${state}`),
+    });
+
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(breaker.state).toBe('half-open');
+    await expect(breaker.execute(async () => 'ok')).resolves.toBe('ok');
+
+    expect(breaker.state).toBe('closed');
+    expect(changes).toEqual(['closed->open', 'open->half-open', 'half-open->closed']);
+  });
+
+  it('should reopen after a failed trial call', async () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 });
+
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(breaker.execute(fail)).rejects.toThrow('service down');
+
+    expect(breaker.state).toBe('open');
+  });
+
+  it('should limit concurrent trial calls while half-open', async () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 1, resetTimeout: 1000, halfOpenMax: 1 });
+
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await vi.advanceTimersByTimeAsync(1000);
+    const trial = breaker.execute(() => new Promise((resolve) => setTimeout(() => resolve('ok'), 100)));
+
+    await expect(breaker.execute(async () => 'second')).rejects.toMatchObject({ retryAfter: 0 });
+    await vi.advanceTimersByTimeAsync(100);
+    await expect(trial).resolves.toBe('ok');
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should ignore errors that are not failures', async () => {
+    const breaker = createCircuitBreaker({
+      failureThreshold: 1,
+      isFailure: (error) => !(error instanceof TypeError),
+    });
+
+    await expect(breaker.execute(() => Promise.reject(new TypeError('bad input')))).rejects.toThrow();
+
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should notify listeners until they unsubscribe and support manual reset', async () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 1 });
+    const listener = vi.fn();
+    const unsubscribe = breaker.onStateChange(listener);
+
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    unsubscribe();
+    breaker.reset();
+
+    expect(breaker.state).toBe('closed');
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith('open', 'closed');
+  });
+
+  it('should validate its options', () => {
+    expect(() => createCircuitBreaker({ failureThreshold: 0 })).toThrow(
+      'failureThreshold (0) must be a positive integer'
+    );
+    expect(() => createCircuitBreaker({ resetTimeout: -1 })).toThrow('resetTimeout (-1) cannot be negative');
+    expect(() => createCircuitBreaker({ halfOpenMax: 1.5 })).toThrow(
+      'halfOpenMax (1.5) must be a positive integer'
+    );
+  });
 });
 
 describe('withTimeout', () => {
@@ -520,6 +837,164 @@ describe('withTimeout', () => {
       withTimeout(slowPromise, 10, 'Custom timeout')
     ).rejects.toThrow('Custom timeout');
   });
+
+  it('should reject with a TimeoutError recording the elapsed time', async () => {
+    const slowPromise = new Promise((resolve) => setTimeout(resolve, 1000));
+
+    const error = await withTimeout(slowPromise, 20).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.timeout).toBe(20);
+    expect(error.elapsed).toBeGreaterThanOrEqual(15);
+  });
+
+  it('should abort the operation created by a factory', async () => {
+    let received: AbortSignal | undefined;
+
+    const result = withTimeout((signal) => {
+      received = signal;
+      return new Promise((resolve) => setTimeout(resolve, 1000));
+    }, 10);
+
+    await expect(result).rejects.toThrow(TimeoutError);
+    expect(received?.aborted).toBe(true);
+    expect(received?.reason).toBeInstanceOf(TimeoutError);
+  });
+
+  it('should clear its timer once the operation settles', async () => {
+    vi.useFakeTimers();
+    try {
+      await expect(withTimeout(async () => 'fast', 1000)).resolves.toBe('fast');
+      await expect(withTimeout(Promise.reject(new Error('failed')), 1000)).rejects.toThrow('failed');
+
+      expect(vi.getTimerCount()).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should reject when the factory throws', async () => {
+    await expect(
+      withTimeout(() => {
+        throw new Error('bad call');
+      }, 1000)
+    ).rejects.toThrow('bad call');
+  });
+});
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should queue requests beyond the per-minute limit', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 2 });
+    const granted: number[] = [];
+
+    for (const call of [1, 2, 3]) {
+      limiter.acquire().then(() => granted.push(call));
+    }
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(granted).toEqual([1, 2]);
+    expect(limiter.pending).toBe(1);
+
+    // One request refills every 30 seconds
+    await vi.advanceTimersByTimeAsync(30000);
+
+    expect(granted).toEqual([1, 2, 3]);
+    expect(limiter.pending).toBe(0);
+  });
+
+  it('should serve waiting calls in arrival order', async () => {
+    const limiter = new RateLimiter({ tokensPerMinute: 600 });
+    const granted: string[] = [];
+
+    await limiter.acquire({ tokens: 600 });
+    limiter.acquire({ tokens: 300 }).then(() => granted.push('large'));
+    limiter.acquire({ tokens: 10 }).then(() => granted.push('small'));
+
+    // Enough for the small call, but it stays behind the large one
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(granted).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(30000);
+    expect(granted).toEqual(['large', 'small']);
+  });
+
+  it('should make later calls wait for consumed tokens', async () => {
+    const limiter = new RateLimiter({ tokensPerMinute: 600 });
+    let granted = false;
+
+    limiter.consume(900);
+    limiter.acquire().then(() => (granted = true));
+
+    await vi.advanceTimersByTimeAsync(29000);
+    expect(granted).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(granted).toBe(true);
+  });
+
+  it('should reject after maxWait and let the next call through', async () => {
+    const limiter = new RateLimiter({ tokensPerMinute: 600, maxWait: 1000 });
+    let granted = false;
+
+    await limiter.acquire({ tokens: 600 });
+    const large = limiter.acquire({ tokens: 600 });
+    const rejected = expect(large).rejects.toThrow('Rate limit wait exceeded 1000ms');
+    await vi.advanceTimersByTimeAsync(500);
+    limiter.acquire({ tokens: 10 }).then(() => (granted = true));
+
+    await vi.advanceTimersByTimeAsync(500);
+    await rejected;
+
+    expect(granted).toBe(true);
+    expect(limiter.pending).toBe(0);
+  });
+
+  it('should reject when the signal aborts', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 1 });
+    const controller = new AbortController();
+
+    await limiter.acquire();
+    const waiting = limiter.acquire({ signal: controller.signal });
+    controller.abort(new Error('stopped'));
+
+    await expect(waiting).rejects.toThrow('stopped');
+    expect(limiter.pending).toBe(0);
+  });
+
+  it('should run scheduled functions once capacity is available', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 1 });
+    const fn = vi.fn().mockResolvedValue('done');
+
+    await limiter.schedule(fn);
+    const second = limiter.schedule(fn);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fn).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(60000);
+    await expect(second).resolves.toBe('done');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should validate its limits', async () => {
+    expect(() => new RateLimiter({})).toThrow('RateLimiter needs requestsPerMinute or tokensPerMinute');
+    expect(() => new RateLimiter({ requestsPerMinute: 0 })).toThrow(
+      'requestsPerMinute (0) must be positive'
+    );
+    expect(() => new RateLimiter({ requestsPerMinute: 1, maxWait: -1 })).toThrow(
+      'maxWait (-1) cannot be negative'
+    );
+    const oversized = new RateLimiter({ tokensPerMinute: 100 }).acquire({ tokens: 101 });
+    await expect(oversized).rejects.toThrow(ConfigurationError);
+    await expect(oversized).rejects.toThrow('101 tokens exceed tokensPerMinute (100)');
+  });
 });
 
 describe('sleep', () => {
@@ -2,7 +2,14 @@
  * IteratoP - Utility Functions
  */
 
-import type { Evaluation, ActionResult, IterationHistory } from './types.js';
+import type { Evaluation, ActionResult, ActionStream, IterationHistory } from './types.js';
+import {
+  CancelledError,
+  CircuitOpenError,
+  ConfigurationError,
+  RetryExhaustedError,
+  TimeoutError,
+} from './errors.js';
 
 /**
  * Create a simple evaluation result
@@ -37,34 +44,65 @@ export function createActionResult<T>(
  * Calculate total cost from history
  */
 export function calculateTotalCost<T>(history: IterationHistory<T>[]): number {
-  return history.reduce((sum, h) => sum + (h.actionResult.metadata?.cost ?? 0), 0);
+  return history.reduce(
+    (sum, h) =>
+      sum +
+      (h.actionResult?.metadata?.cost ?? 0) +
+      [...(h.skipped ? [] : h.candidates ?? []), ...(h.skippedCandidates ?? [])].reduce(
+        (candidateSum, c) => candidateSum + (c.actionResult?.metadata?.cost ?? 0),
+        0
+      ),
+    0
+  );
 }
 
 /**
- * Calculate average score from history
+ * Calculate average score from history, ignoring skipped iterations
  */
 export function calculateAverageScore<T>(history: IterationHistory<T>[]): number {
-  if (history.length === 0) return 0;
-  const total = history.reduce((sum, h) => sum + h.evaluation.score, 0);
-  return total / history.length;
+  const scores = getScoreProgression(history);
+  if (scores.length === 0) return 0;
+  return scores.reduce((sum, score) => sum + score, 0) / scores.length;
 }
 
 /**
- * Get score progression from history
+ * Get score progression from history, ignoring skipped iterations
  */
 export function getScoreProgression<T>(history: IterationHistory<T>[]): number[] {
-  return history.map((h) => h.evaluation.score);
+  return history.flatMap((h) => (h.skipped ? [] : [h.evaluation.score]));
+}
+
+/**
+ * Get the evaluation of the most recent iteration that was not skipped
+ */
+export function getLastEvaluation<T>(history: IterationHistory<T>[]): Evaluation | undefined {
+  for (let i = history.length - 1; i >= 0; i--) {
+    const h = history[i];
+    if (!h.skipped) return h.evaluation;
+  }
+  return undefined;
 }
 
 /**
  * Check if scores are improving
+ *
+ * Skipped iterations are ignored.
+ *
+ * @param windowSize - Number of most recent scored entries to compare
+ * @param minDelta - Minimum gain between the first and last entry of the
+ *   window; when omitted, any strict increase counts as improving
  */
-export function isImproving<T>(history: IterationHistory<T>[], windowSize = 2): boolean {
+export function isImproving<T>(
+  history: IterationHistory<T>[],
+  windowSize = 2,
+  minDelta?: number
+): boolean {
   if (history.length < windowSize) return true;
-  const recent = history.slice(-windowSize);
-  const scores = recent.map((h) => h.evaluation.score);
+  const scores = getScoreProgression(history).slice(-windowSize);
+  if (scores.length < windowSize) return true;
   // Check if last score is better than first in window
-  return scores[scores.length - 1] > scores[0];
+  const delta = scores[scores.length - 1] - scores[0];
+  return minDelta === undefined ? delta > 0 : delta >= minDelta;
 }
 
 /**
@@ -147,42 +185,285 @@ export function deduplicateBy<T>(items: T[], getKey: (item: T) => string): T[] {
   return Array.from(seen.values());
 }
 
+/**
+ * Options for `withRetry`
+ */
+export interface RetryOptions {
+  /** Retries after the first attempt (default: 3) */
+  maxRetries?: number;
+  /** Delay before the first retry in milliseconds (default: 1000) */
+  initialDelay?: number;
+  /** Upper bound for computed delays in milliseconds (default: 10000) */
+  maxDelay?: number;
+  /** Growth of the delay per retry (default: 2) */
+  backoffFactor?: number;
+  /**
+   * Randomization of the delay (default: 'none')
+   *
+   * - `'none'`: exponential backoff
+   * - `'full'`: a random delay between 0 and the exponential backoff
+   * - `'decorrelated'`: a random delay between `initialDelay` and three
+   *   times the previous delay
+   */
+  jitter?: 'none' | 'full' | 'decorrelated';
+  /** Whether an error is worth retrying (default: every error is) */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+  /**
+   * Delay the error asks for, overriding the computed one
+   * (default: `getRetryAfter`)
+   */
+  retryAfter?: (error: unknown) => number | undefined;
+  /** Called before each retry with the retry number (1 for the first retry) */
+  onRetry?: (error: unknown, attempt: number, delay: number) => void;
+  /** Stops retrying and aborts the attempt in progress; rejects with the signal's reason */
+  signal?: AbortSignal;
+  /** Random number source in [0, 1) (default: Math.random) */
+  random?: () => number;
+}
+
 /**
  * Retry a function with exponential backoff
+ *
+ * Each attempt gets its own signal, aborted when `signal` aborts, so
+ * `fn` can cancel its in-flight work. Errors rejected by `shouldRetry`
+ * are rethrown as they are. Once all retries fail, rejects with a
+ * `RetryExhaustedError` holding every error.
  */
 export async function withRetry<T>(
-  fn: () => Promise<T>,
-  options: {
-    maxRetries?: number;
-    initialDelay?: number;
-    maxDelay?: number;
-    backoffFactor?: number;
-  } = {}
+  fn: (signal: AbortSignal) => Promise<T>,
+  options: RetryOptions = {}
 ): Promise<T> {
   const {
     maxRetries = 3,
     initialDelay = 1000,
     maxDelay = 10000,
     backoffFactor = 2,
+    jitter = 'none',
+    shouldRetry = () => true,
+    retryAfter = getRetryAfter,
+    onRetry,
+    signal,
+    random = Math.random,
   } = options;
 
-  let lastError: Error | undefined;
+  const errors: unknown[] = [];
+  let backoff = initialDelay;
   let delay = initialDelay;
 
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw signal.reason ?? new CancelledError('Retry cancelled');
+
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', forwardAbort, { once: true });
     try {
-      return await fn();
+      return await raceSignal(fn(controller.signal), controller.signal);
     } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
+      if (signal?.aborted) throw error;
+      errors.push(error);
+      if (!shouldRetry(error, attempt + 1)) throw error;
+      if (attempt >= maxRetries) throw new RetryExhaustedError(errors);
 
-      if (attempt < maxRetries) {
-        await sleep(delay);
-        delay = Math.min(delay * backoffFactor, maxDelay);
+      if (jitter === 'decorrelated') {
+        delay = Math.min(maxDelay, initialDelay + random() * (delay * 3 - initialDelay));
+      } else {
+        delay = jitter === 'full' ? random() * backoff : backoff;
       }
+      backoff = Math.min(backoff * backoffFactor, maxDelay);
+      delay = retryAfter(error) ?? delay;
+
+      onRetry?.(error, attempt + 1, delay);
+      await (signal ? raceSignal(sleep(delay), signal) : sleep(delay));
+    } finally {
+      signal?.removeEventListener('abort', forwardAbort);
     }
   }
+}
+
+/**
+ * Read the delay an error asks for before a retry, in milliseconds
+ *
+ * Understands a numeric `retryAfter` property in milliseconds (as on
+ * `CircuitOpenError`) and a `Retry-After` header (seconds or an HTTP date)
+ * in `headers`, as attached by most HTTP client errors.
+ */
+export function getRetryAfter(error: unknown): number | undefined {
+  if (!error || typeof error !== 'object') return undefined;
+
+  const { retryAfter, headers } = error as { retryAfter?: unknown; headers?: unknown };
+  if (typeof retryAfter === 'number' && retryAfter >= 0) return retryAfter;
+
+  let header: unknown;
+  if (headers && typeof (headers as { get?: unknown }).get === 'function') {
+    header = (headers as { get: (name: string) => unknown }).get('retry-after');
+  } else if (headers && typeof headers === 'object') {
+    const entry = Object.entries(headers).find(([name]) => name.toLowerCase() === 'retry-after');
+    header = entry?.[1];
+  }
+  if (typeof header !== 'string' || header.trim() === '') return undefined;
 
-  throw lastError;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * State of a `CircuitBreaker`
+ *
+ * - `'closed'`: calls run normally and failures are counted
+ * - `'open'`: calls are rejected with `CircuitOpenError` without running
+ * - `'half-open'`: a limited number of trial calls decide whether to close again
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Options for `createCircuitBreaker`
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** Time the circuit stays open before trial calls are allowed, in milliseconds (default: 30000) */
+  resetTimeout?: number;
+  /** Trial calls allowed at once while half-open (default: 1) */
+  halfOpenMax?: number;
+  /** Whether an error counts as a failure (default: every error does) */
+  isFailure?: (error: unknown) => boolean;
+  /** Called whenever the state changes */
+  onStateChange?: (state: CircuitState, previous: CircuitState) => void;
+}
+
+/**
+ * Circuit breaker that fails fast while a downstream service is unhealthy
+ *
+ * The open circuit turns half-open once `resetTimeout` has passed; the
+ * change is observed (and reported) on the next call or `state` read.
+ * A successful trial call closes the circuit, a failed one opens it again.
+ */
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly resetTimeout: number;
+  private readonly halfOpenMax: number;
+  private readonly isFailure: (error: unknown) => boolean;
+  private listeners: ((state: CircuitState, previous: CircuitState) => void)[] = [];
+  private current: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trials = 0;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    const { failureThreshold = 5, resetTimeout = 30000, halfOpenMax = 1 } = options;
+
+    if (!Number.isInteger(failureThreshold) || failureThreshold < 1) {
+      throw new ConfigurationError(`Invalid configuration: failureThreshold (${failureThreshold}) must be a positive integer`);
+    }
+    if (!(resetTimeout >= 0)) {
+      throw new ConfigurationError(`Invalid configuration: resetTimeout (${resetTimeout}) cannot be negative`);
+    }
+    if (!Number.isInteger(halfOpenMax) || halfOpenMax < 1) {
+      throw new ConfigurationError(`Invalid configuration: halfOpenMax (${halfOpenMax}) must be a positive integer`);
+    }
+
+    this.failureThreshold = failureThreshold;
+    this.resetTimeout = resetTimeout;
+    this.halfOpenMax = halfOpenMax;
+    this.isFailure = options.isFailure ?? (() => true);
+    if (options.onStateChange) this.listeners.push(options.onStateChange);
+  }
+
+  /**
+   * Current state
+   */
+  get state(): CircuitState {
+    if (this.current === 'open' && Date.now() - this.openedAt >= this.resetTimeout) {
+      this.setState('half-open');
+    }
+    return this.current;
+  }
+
+  /**
+   * Add a state change listener
+   */
+  onStateChange(listener: (state: CircuitState, previous: CircuitState) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  /**
+   * Run `fn` through the breaker
+   *
+   * @throws CircuitOpenError when the circuit rejects the call
+   */
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    const state = this.state;
+    if (state === 'open') {
+      throw new CircuitOpenError(this.resetTimeout - (Date.now() - this.openedAt));
+    }
+    const trial = state === 'half-open';
+    if (trial) {
+      if (this.trials >= this.halfOpenMax) throw new CircuitOpenError(0);
+      this.trials++;
+    }
+
+    try {
+      const result = await fn();
+      if (trial && this.current === 'half-open') {
+        this.setState('closed');
+      } else if (this.current === 'closed') {
+        this.failures = 0;
+      }
+      return result;
+    } catch (error) {
+      if (!this.isFailure(error)) {
+        if (trial && this.current === 'half-open') this.trials--;
+      } else if (trial && this.current === 'half-open') {
+        this.setState('open');
+      } else if (this.current === 'closed' && ++this.failures >= this.failureThreshold) {
+        this.setState('open');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Close the circuit and clear the failure count
+   */
+  reset(): void {
+    this.setState('closed');
+    this.failures = 0;
+  }
+
+  private setState(state: CircuitState): void {
+    const previous = this.current;
+    if (state === previous) return;
+
+    this.current = state;
+    this.failures = 0;
+    this.trials = 0;
+    if (state === 'open') this.openedAt = Date.now();
+    for (const listener of this.listeners) {
+      listener(state, previous);
+    }
+  }
+}
+
+/**
+ * Factory function for creating a CircuitBreaker
+ *
+ * @example
+ * ```typescript
+ * const breaker = createCircuitBreaker({ failureThreshold: 3, resetTimeout: 60000 });
+ *
+ * act: async (state) => {
+ *   const answer = await breaker.execute(() => llm.complete(state.prompt));
+ *   return createActionResult(answer);
+ * },
+ * ```
+ */
+export function createCircuitBreaker(options?: CircuitBreakerOptions): CircuitBreaker {
+  return new CircuitBreaker(options);
 }
 
 /**
@@ -193,19 +474,295 @@ export function sleep(ms: number): Promise<void> {
 }
 
 /**
- * Create a timeout promise
+ * Race a promise against an abort signal
+ *
+ * Rejects with the signal's reason as soon as it aborts; the promise
+ * itself keeps running.
+ */
+export function raceSignal<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason ?? new CancelledError());
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Whether an action returned a stream of chunks rather than a promise
+ */
+export function isActionStream<ActionData>(
+  output: Promise<ActionResult<ActionData>> | ActionStream<ActionData>
+): output is ActionStream<ActionData> {
+  return typeof (output as ActionStream<ActionData>)[Symbol.asyncIterator] === 'function';
+}
+
+/**
+ * Wait for an action's result, passing each chunk of a streaming action to `onChunk`
+ */
+export async function resolveAction<ActionData>(
+  output: Promise<ActionResult<ActionData>> | ActionStream<ActionData>,
+  onChunk?: (chunk: unknown, index: number) => void
+): Promise<ActionResult<ActionData>> {
+  if (!isActionStream(output)) return output;
+
+  for (let index = 0; ; index++) {
+    const next = await output.next();
+    if (next.done) return next.value;
+    onChunk?.(next.value, index);
+  }
+}
+
+/**
+ * Limits for a `RateLimiter`
+ */
+export interface RateLimiterOptions {
+  /** Requests allowed per minute */
+  requestsPerMinute?: number;
+  /** Tokens allowed per minute */
+  tokensPerMinute?: number;
+  /** Longest a call may wait for capacity before it is rejected, in milliseconds */
+  maxWait?: number;
+}
+
+interface RateLimitWaiter {
+  tokens: number;
+  grant: () => void;
+}
+
+/**
+ * Token bucket rate limiter for requests and tokens per minute
+ *
+ * Each bucket starts full and refills continuously, so up to a minute's
+ * worth of calls may burst at once. Waiting calls are served strictly in
+ * arrival order: a call that needs many tokens is not overtaken by
+ * cheaper calls queued behind it.
+ *
+ * @example
+ * ```typescript
+ * const limiter = new RateLimiter({ requestsPerMinute: 60, tokensPerMinute: 90000 });
+ *
+ * await limiter.acquire({ tokens: 1200 });
+ * const response = await callProvider();
+ * limiter.consume(response.usage.totalTokens - 1200);
+ * ```
+ */
+export class RateLimiter {
+  private readonly requestsPerMinute: number;
+  private readonly tokensPerMinute: number;
+  private readonly maxWait?: number;
+  private requests: number;
+  private tokens: number;
+  private refilledAt = Date.now();
+  private queue: RateLimitWaiter[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(options: RateLimiterOptions) {
+    const { requestsPerMinute = Infinity, tokensPerMinute = Infinity, maxWait } = options;
+
+    if (requestsPerMinute === Infinity && tokensPerMinute === Infinity) {
+      throw new ConfigurationError('Invalid configuration: RateLimiter needs requestsPerMinute or tokensPerMinute');
+    }
+    for (const [name, value] of Object.entries({ requestsPerMinute, tokensPerMinute })) {
+      if (!(value > 0)) {
+        throw new ConfigurationError(`Invalid configuration: ${name} (${value}) must be positive`);
+      }
+    }
+    if (maxWait !== undefined && !(maxWait >= 0)) {
+      throw new ConfigurationError(`Invalid configuration: maxWait (${maxWait}) cannot be negative`);
+    }
+
+    this.requestsPerMinute = requestsPerMinute;
+    this.tokensPerMinute = tokensPerMinute;
+    this.maxWait = maxWait;
+    this.requests = requestsPerMinute;
+    this.tokens = tokensPerMinute;
+  }
+
+  /**
+   * Number of calls waiting for capacity
+   */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Wait until one request (and `tokens` tokens) can be spent, then spend them
+   *
+   * Rejects when `maxWait` passes first or `signal` aborts; the call then
+   * leaves the queue without spending anything.
+   */
+  acquire(options: { tokens?: number; signal?: AbortSignal } = {}): Promise<void> {
+    const { tokens = 0, signal } = options;
+
+    if (tokens > this.tokensPerMinute) {
+      return Promise.reject(
+        new ConfigurationError(`Rate limit: ${tokens} tokens exceed tokensPerMinute (${this.tokensPerMinute})`)
+      );
+    }
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason ?? new CancelledError());
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const settle = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      };
+      const fail = (error: unknown) => {
+        this.queue = this.queue.filter((queued) => queued !== waiter);
+        settle();
+        reject(error);
+        // The next caller may have been waiting behind this one
+        this.drain();
+      };
+      const onAbort = () => fail(signal?.reason ?? new CancelledError());
+      const waiter: RateLimitWaiter = {
+        tokens,
+        grant: () => {
+          settle();
+          resolve();
+        },
+      };
+
+      this.queue.push(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      if (this.maxWait !== undefined) {
+        const maxWait = this.maxWait;
+        timer = setTimeout(
+          () => fail(new TimeoutError(`Rate limit wait exceeded ${maxWait}ms`, maxWait, { elapsed: maxWait })),
+          maxWait
+        );
+      }
+      this.drain();
+    });
+  }
+
+  /**
+   * Spend tokens after the fact, e.g. once a response reports its usage
+   *
+   * The token bucket may go negative; later calls wait until it refills.
+   */
+  consume(tokens: number): void {
+    this.refill();
+    this.tokens -= tokens;
+  }
+
+  /**
+   * Run `fn` once capacity is available
+   */
+  async schedule<T>(
+    fn: () => Promise<T>,
+    options: { tokens?: number; signal?: AbortSignal } = {}
+  ): Promise<T> {
+    await this.acquire(options);
+    return fn();
+  }
+
+  /**
+   * Grant queued calls in order until the head must wait, then wake up when it can go
+   */
+  private drain(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.refill();
+
+    while (this.queue.length > 0) {
+      const head = this.queue[0];
+      const wait = this.waitTime(head.tokens);
+      if (wait > 0) {
+        this.timer = setTimeout(() => this.drain(), wait);
+        return;
+      }
+      this.queue.shift();
+      this.requests -= 1;
+      this.tokens -= head.tokens;
+      head.grant();
+    }
+  }
+
+  private waitTime(tokens: number): number {
+    const requestWait =
+      this.requests >= 1 ? 0 : ((1 - this.requests) * 60000) / this.requestsPerMinute;
+    const tokenWait =
+      this.tokens >= tokens ? 0 : ((tokens - this.tokens) * 60000) / this.tokensPerMinute;
+    return Math.ceil(Math.max(requestWait, tokenWait));
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.refilledAt;
+    this.refilledAt = now;
+
+    // Unset limits stay at Infinity
+    if (Number.isFinite(this.requestsPerMinute)) {
+      this.requests = Math.min(
+        this.requestsPerMinute,
+        this.requests + (elapsed * this.requestsPerMinute) / 60000
+      );
+    }
+    if (Number.isFinite(this.tokensPerMinute)) {
+      this.tokens = Math.min(this.tokensPerMinute, this.tokens + (elapsed * this.tokensPerMinute) / 60000);
+    }
+  }
+}
+
+/**
+ * Reject with a `TimeoutError` if an operation does not settle in time
+ *
+ * Pass a factory instead of a promise to have the operation cancelled:
+ * its signal aborts (with the `TimeoutError` as reason) when time runs out.
+ * The timer is cleared as soon as the operation settles.
+ *
+ * @example
+ * ```typescript
+ * const page = await withTimeout((signal) => fetch(url, { signal }), 5000);
+ * ```
  */
 export function withTimeout<T>(
-  promise: Promise<T>,
+  operation: Promise<T> | ((signal: AbortSignal) => Promise<T>),
   timeoutMs: number,
   message = 'Operation timed out'
 ): Promise<T> {
-  return Promise.race([
-    promise,
-    new Promise<never>((_, reject) =>
-      setTimeout(() => reject(new Error(message)), timeoutMs)
-    ),
-  ]);
+  const controller = new AbortController();
+  const start = Date.now();
+  let promise: Promise<T>;
+  try {
+    promise = typeof operation === 'function' ? operation(controller.signal) : operation;
+  } catch (error) {
+    return Promise.reject(error);
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      const error = new TimeoutError(message, timeoutMs, { elapsed: Date.now() - start });
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
 }
 
 /**
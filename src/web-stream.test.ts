@@ -0,0 +1,196 @@
+/**
+ * IteratoP - Web Stream Adapter Tests
+ */
+
+import { createIterator } from './core';
+import { createEvaluation, createActionResult } from './utils';
+import { serializeEvent, formatSSE, toSSEStream, toNDJSONStream } from './web-stream';
+
+function createProcessor(options: { maxIterations?: number; actDelay?: number; fail?: boolean } = {}) {
+  let actCalls = 0;
+  const processor = createIterator(
+    {
+      initialize: async (input: number) => ({ value: input }),
+      act: async (state: { value: number }) => {
+        actCalls++;
+        if (options.fail) throw new Error('act failed');
+        if (options.actDelay) await new Promise((resolve) => setTimeout(resolve, options.actDelay));
+        return createActionResult(state.value + 1);
+      },
+      evaluate: async (_: { value: number }, actionResult: { data: number }) =>
+        createEvaluation(actionResult.data * 10, { shouldContinue: true }),
+      transition: async (_: { value: number }, actionResult: { data: number }) => ({
+        value: actionResult.data,
+      }),
+      finalize: async (state: { value: number }) => state.value,
+    },
+    { maxIterations: options.maxIterations ?? 3, targetScore: 100 }
+  );
+  return { processor, getActCalls: () => actCalls };
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<string> {
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return text;
+    text += decoder.decode(value, { stream: true });
+  }
+}
+
+describe('serializeEvent', () => {
+  it('should serialize errors without their stack', () => {
+    const error = Object.assign(new TypeError('bad input'), { code: 'E_INPUT' });
+    const parsed = JSON.parse(serializeEvent({ type: 'error', error, iteration: 2 }));
+
+    expect(parsed.error).toEqual({ name: 'TypeError', message: 'bad input', code: 'E_INPUT' });
+    expect(parsed.iteration).toBe(2);
+  });
+
+  it('should handle bigints and circular references', () => {
+    const state: Record<string, unknown> = { count: BigInt(5) };
+    state.self = state;
+
+    const parsed = JSON.parse(serializeEvent({ type: 'transition_complete', iteration: 0, state }));
+
+    expect(parsed.state.count).toBe('5');
+    expect(parsed.state.self).toBe('[Circular]');
+  });
+
+  it('should keep shared references that are not circular', () => {
+    const shared = { id: 1 };
+    const parsed = JSON.parse(
+      serializeEvent({ type: 'transition_complete', iteration: 0, state: { a: shared, b: shared } })
+    );
+
+    expect(parsed.state).toEqual({ a: { id: 1 }, b: { id: 1 } });
+  });
+
+  it('should handle errors that reference themselves', () => {
+    const error = new Error('loop') as Error & { self?: Error };
+    error.self = error;
+
+    const parsed = JSON.parse(serializeEvent({ type: 'error', error, iteration: 0 }));
+
+    expect(parsed.error.self).toBe('[Circular]');
+  });
+});
+
+describe('formatSSE', () => {
+  it('should format an event as an SSE frame', () => {
+    expect(formatSSE({ type: 'iteration_start', iteration: 1 })).toBe(
+      'event: iteration_start\ndata: {"type":"iteration_start","iteration":1}\n\n'
+    );
+  });
+});
+
+describe('toSSEStream', () => {
+  it('should stream all events as SSE frames', async () => {
+    const { processor } = createProcessor();
+
+    const text = await readAll(toSSEStream(processor, 0));
+    const frames = text.trim().split('\n\n');
+    const types = frames.map((frame) => frame.split('\n')[0].replace('event: ', ''));
+
+    expect(types[0]).toBe('start');
+    expect(types.filter((type) => type === 'iteration_complete')).toHaveLength(3);
+    expect(types[types.length - 1]).toBe('complete');
+
+    const complete = JSON.parse(frames[frames.length - 1].split('\n')[1].replace('data: ', ''));
+    expect(complete.result.result).toBe(2);
+  });
+
+  it('should only send the selected events', async () => {
+    const { processor } = createProcessor();
+
+    const text = await readAll(toSSEStream(processor, 0, { events: ['iteration_complete'] }));
+
+    expect(text.match(/^event: /gm)).toHaveLength(3);
+    expect(text).not.toContain('event: complete');
+  });
+
+  it('should send errors as an error event and close', async () => {
+    const { processor } = createProcessor({ fail: true });
+
+    const text = await readAll(toSSEStream(processor, 0));
+
+    const data = text.split('event: error\ndata: ')[1];
+    expect(JSON.parse(data.split('\n')[0]).error).toMatchObject({
+      name: 'PhaseError',
+      phase: 'act',
+      message: 'act phase failed in iteration 0: act failed',
+      cause: { name: 'Error', message: 'act failed' },
+    });
+  });
+
+  it('should cancel the run when the client disconnects', async () => {
+    const { processor, getActCalls } = createProcessor({ maxIterations: 10, actDelay: 20 });
+    const events: string[] = [];
+    processor.on((event) => events.push(event.type));
+
+    const reader = toSSEStream(processor, 0).getReader();
+    await reader.read();
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    await reader.cancel();
+    await new Promise((resolve) => setTimeout(resolve, 60));
+
+    expect(getActCalls()).toBeLessThan(10);
+    const completed = events.filter((type) => type === 'complete');
+    expect(completed).toHaveLength(1);
+  });
+
+  it('should cancel the run when the signal aborts', async () => {
+    const { processor } = createProcessor({ maxIterations: 10, actDelay: 20 });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 30);
+
+    const text = await readAll(toSSEStream(processor, 0, { signal: controller.signal }));
+
+    expect(text).toContain('"terminationReason":"cancelled"');
+  });
+});
+
+describe('toNDJSONStream', () => {
+  it('should stream one JSON event per line', async () => {
+    const { processor } = createProcessor();
+
+    const text = await readAll(toNDJSONStream(processor, 0));
+    const events = text.trim().split('\n').map((line) => JSON.parse(line));
+
+    expect(events[0]).toEqual({ type: 'start', input: 0 });
+    expect(events[events.length - 1].type).toBe('complete');
+  });
+
+  it('should only send the events of its own run', async () => {
+    const { processor } = createProcessor({ actDelay: 5 });
+    const events: unknown[] = [];
+    processor.on((event) => events.push(event));
+
+    const [first, second] = await Promise.all([
+      readAll(toNDJSONStream(processor, 0)),
+      readAll(toNDJSONStream(processor, 100)),
+    ]);
+    const parse = (text: string) => text.trim().split('\n').map((line) => JSON.parse(line));
+
+    expect(parse(first).filter((event) => event.type === 'start')).toEqual([{ type: 'start', input: 0 }]);
+    expect(parse(second).filter((event) => event.type === 'start')).toEqual([{ type: 'start', input: 100 }]);
+    expect(parse(first).filter((event) => event.type === 'complete')).toHaveLength(1);
+    expect(events.length).toBe(parse(first).length + parse(second).length);
+  });
+
+  it('should stop receiving events once its run has finished', async () => {
+    const { processor } = createProcessor();
+    const streamed: unknown[] = [];
+    await readAll(toNDJSONStream(processor, 0, { onEvent: (event) => streamed.push(event) }));
+    const count = streamed.length;
+
+    const later: unknown[] = [];
+    processor.on((event) => later.push(event));
+    await processor.run(100);
+
+    expect(later.length).toBeGreaterThan(0);
+    expect(streamed).toHaveLength(count);
+  });
+});
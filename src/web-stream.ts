@@ -0,0 +1,154 @@
+/**
+ * IteratoP - Web Stream Adapters
+ *
+ * Turn a run into a WHATWG `ReadableStream<Uint8Array>` of Server-Sent
+ * Events or NDJSON, for serving loop progress to browsers. Relies on the
+ * global `ReadableStream` (Node 18+, Deno, Bun, browsers and edge runtimes).
+ */
+
+import type { IterationProcessor } from './core.js';
+import type { IterationEvent, RunOptions } from './types.js';
+
+/**
+ * Options for the event stream adapters
+ */
+export interface EventStreamOptions extends RunOptions {
+  /** Event types to send (default: all) */
+  events?: IterationEvent['type'][];
+}
+
+/**
+ * Serialize an iteration event to a single line of JSON
+ *
+ * `Error` values become `{ name, message }` plus their own enumerable
+ * fields (stacks are left out so they never reach the client), bigints
+ * become strings and circular references become `"[Circular]"`.
+ */
+export function serializeEvent(event: IterationEvent): string {
+  const ancestors: object[] = [];
+
+  return JSON.stringify(event, function (this: unknown, _key: string, value: unknown) {
+    if (typeof value === 'bigint') return value.toString();
+    if (value === null || typeof value !== 'object') return value;
+
+    // `this` is the object holding `value`; drop ancestors we have left
+    while (ancestors.length > 0 && ancestors[ancestors.length - 1] !== this) {
+      ancestors.pop();
+    }
+    if (ancestors.includes(value)) return '[Circular]';
+    ancestors.push(value);
+
+    if (value instanceof Error) {
+      // The copy becomes the holder of the error's fields
+      const copy = { ...value, name: value.name, message: value.message };
+      ancestors.push(copy);
+      return copy;
+    }
+    return value;
+  });
+}
+
+/**
+ * Format an iteration event as a Server-Sent Events frame
+ */
+export function formatSSE(event: IterationEvent): string {
+  return `event: ${event.type}\ndata: ${serializeEvent(event)}\n\n`;
+}
+
+/**
+ * Format an iteration event as an NDJSON line
+ */
+export function formatNDJSON(event: IterationEvent): string {
+  return `${serializeEvent(event)}\n`;
+}
+
+/**
+ * Run the processor and stream its events as Server-Sent Events
+ *
+ * Each event is sent as `event: <type>` with the JSON-serialized event as
+ * `data`. The stream closes when the run finishes; if the client
+ * disconnects (the stream is cancelled), the run is cancelled too.
+ * Only this run's events are sent, even when other runs of the same
+ * processor overlap with it.
+ *
+ * @example
+ * ```typescript
+ * // In a fetch handler
+ * return new Response(toSSEStream(processor, query, { signal: request.signal }), {
+ *   headers: { 'Content-Type': 'text/event-stream' },
+ * });
+ * ```
+ */
+export function toSSEStream<Input, State, ActionData, Result>(
+  processor: IterationProcessor<Input, State, ActionData, Result>,
+  input: Input,
+  options: EventStreamOptions = {}
+): ReadableStream<Uint8Array> {
+  return createEventStream(processor, input, options, formatSSE);
+}
+
+/**
+ * Run the processor and stream its events as NDJSON (one JSON event per line)
+ *
+ * Behaves like `toSSEStream`, including cancellation on disconnect.
+ */
+export function toNDJSONStream<Input, State, ActionData, Result>(
+  processor: IterationProcessor<Input, State, ActionData, Result>,
+  input: Input,
+  options: EventStreamOptions = {}
+): ReadableStream<Uint8Array> {
+  return createEventStream(processor, input, options, formatNDJSON);
+}
+
+/**
+ * Shared implementation of the event stream adapters
+ */
+function createEventStream<Input, State, ActionData, Result>(
+  processor: IterationProcessor<Input, State, ActionData, Result>,
+  input: Input,
+  options: EventStreamOptions,
+  format: (event: IterationEvent) => string
+): ReadableStream<Uint8Array> {
+  const { events, signal, onEvent, ...runOptions } = options;
+  const encoder = new TextEncoder();
+  const controller = new AbortController();
+  let closed = false;
+
+  const onAbort = () => controller.abort(signal?.reason);
+
+  const cleanup = () => {
+    closed = true;
+    signal?.removeEventListener('abort', onAbort);
+  };
+
+  return new ReadableStream<Uint8Array>({
+    start(stream) {
+      if (signal?.aborted) {
+        controller.abort(signal.reason);
+      } else {
+        signal?.addEventListener('abort', onAbort, { once: true });
+      }
+
+      const send = (event: IterationEvent) => {
+        onEvent?.(event);
+        if (closed || (events && !events.includes(event.type))) return;
+        stream.enqueue(encoder.encode(format(event)));
+      };
+
+      // Errors reach the client as the 'error' event, so the stream
+      // itself always closes normally
+      processor
+        .run(input, { ...runOptions, signal: controller.signal, onEvent: send })
+        .catch(() => undefined)
+        .finally(() => {
+          if (closed) return;
+          cleanup();
+          stream.close();
+        });
+    },
+    cancel(reason) {
+      cleanup();
+      controller.abort(reason);
+    },
+  });
+}